@@ -1,94 +1,220 @@
 import * as fs from "fs";
 import * as path from "path";
+import {
+  getProperty,
+  Layer,
+  ObjectLayer,
+  Tile,
+  TiledObject,
+  TileLayer,
+  Tilemap,
+  Tileset,
+} from "../../shared/tiled";
+import { Position } from "../../shared/movement";
+import { CollisionMap } from "../../shared/CollisionMap";
+import { Box } from "../../shared/collision";
+import { readTmxMap } from "./TmxReader";
 
-interface Tileset {
-  firstgid: number;
-  image: string;
-  imageheight: number;
-  imagewidth: number;
+// Defaults for spawn zone properties left out in Tiled
+const DEFAULT_ENEMY_TYPE = "slime";
+const DEFAULT_MAX_COUNT = 1;
+const DEFAULT_RESPAWN_DELAY = 10000;
+
+// An "enemy_spawn" rectangle from the map's object layers
+export interface SpawnZone {
+  id: number;
   name: string;
-  tilecount: number;
-  tileheight: number;
-  tilewidth: number;
-  tiles?: Tile[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  enemyType: string;
+  maxCount: number;
+  respawnDelay: number; // in milliseconds
 }
 
-interface Tile {
-  id: number;
-  properties?: { name: string; type: string; value: any }[];
+// A placed tile: its global id without flip flags, and the tileset it's from
+export interface TileInfo {
+  gid: number;
+  tileset: Tileset;
+  tile?: Tile; // Only tiles with properties, shapes or animations have one
 }
 
-interface Layer {
+// A "portal" rectangle that takes players who walk into it to another zone
+export interface Portal {
+  id: number;
   name: string;
-  type: string;
-  data: number[];
-  height: number;
-  width: number;
   x: number;
   y: number;
-  visible: boolean;
-  opacity: number;
-  properties?: { [key: string]: any };
-}
-
-interface Tilemap {
-  layers: Layer[];
-  tilesets: Tileset[];
   width: number;
   height: number;
-  tilewidth: number;
-  tileheight: number;
-  type: string;
-  version: string;
-  orientation: string;
-  renderorder: string;
-  tiledversion: string;
-  nextlayerid: number;
-  nextobjectid: number;
-  infinite: boolean;
+  targetZone: string;
+  // Name of the player_spawn point in the target zone to arrive at
+  targetSpawn: string;
 }
 
+/**
+ * A map and the queries the server runs against it. Reads Tiled TMX maps
+ * (with external TSX tilesets) directly, or Tiled JSON exports.
+ */
 export class MapLoader {
   private map: Tilemap;
-  private collidableTiles: Set<number>;
+  private collision: CollisionMap;
+  readonly widthInTiles: number;
+  readonly heightInTiles: number;
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  // Size of the map in world (pixel) coordinates
+  readonly widthInPixels: number;
+  readonly heightInPixels: number;
 
   constructor(mapPath: string) {
     const fullPath = path.resolve(mapPath);
-    const rawData = fs.readFileSync(fullPath, "utf-8");
-    this.map = JSON.parse(rawData);
-    this.collidableTiles = this.findCollidableTiles();
-  }
-
-  private findCollidableTiles(): Set<number> {
-    const collidableTiles = new Set<number>();
-    for (const tileset of this.map.tilesets) {
-      for (const tile of tileset.tiles || []) {
-        if (
-          tile.properties?.some(
-            (prop) => prop.name === "collideable" && prop.value
-          )
-        ) {
-          collidableTiles.add(tile.id + tileset.firstgid);
-        }
-      }
+    if (path.extname(fullPath) === ".tmx") {
+      this.map = readTmxMap(fullPath);
+    } else {
+      this.map = JSON.parse(fs.readFileSync(fullPath, "utf-8"));
     }
-    return collidableTiles;
+    this.collision = new CollisionMap(this.map);
+    this.widthInTiles = this.map.width;
+    this.heightInTiles = this.map.height;
+    this.tileWidth = this.map.tilewidth;
+    this.tileHeight = this.map.tileheight;
+    this.widthInPixels = this.widthInTiles * this.tileWidth;
+    this.heightInPixels = this.heightInTiles * this.tileHeight;
   }
 
   isTileBlocked(x: number, y: number): boolean {
+    return this.collision.isTileBlocked(x, y);
+  }
+
+  isPointBlocked(x: number, y: number): boolean {
+    return this.collision.isPointBlocked(x, y);
+  }
+
+  isBoxBlocked(box: Box): boolean {
+    return this.collision.isBoxBlocked(box);
+  }
+
+  getLayers(): Layer[] {
+    return this.map.layers;
+  }
+
+  getTileLayer(name: string): TileLayer | undefined {
+    return this.map.layers.find(
+      (layer): layer is TileLayer =>
+        layer.type === "tilelayer" && layer.name === name
+    );
+  }
+
+  getObjectLayer(name: string): ObjectLayer | undefined {
+    return this.map.layers.find(
+      (layer): layer is ObjectLayer =>
+        layer.type === "objectgroup" && layer.name === name
+    );
+  }
+
+  // The tile at a tile position in a layer, or null if there is none
+  getTileAt(layerName: string, x: number, y: number): TileInfo | null {
+    const layer = this.getTileLayer(layerName);
+    if (!layer || x < 0 || x >= layer.width || y < 0 || y >= layer.height) {
+      return null;
+    }
+    // Drop Tiled's flip flags from the top bits
+    const gid = layer.data[y * layer.width + x] & 0x0fffffff;
+    if (gid === 0) return null;
+
+    // Tilesets are in firstgid order; the tile is in the last one that
+    // starts at or before it
+    let tileset: Tileset | undefined;
+    for (const candidate of this.map.tilesets) {
+      if (candidate.firstgid <= gid) tileset = candidate;
+    }
+    if (!tileset) return null;
+    const id = gid - tileset.firstgid;
+    return {
+      gid,
+      tileset,
+      tile: tileset.tiles?.find((tile) => tile.id === id),
+    };
+  }
+
+  // A custom property of the tile at a tile position in a layer
+  getTileProperty<T>(
+    layerName: string,
+    x: number,
+    y: number,
+    name: string,
+    fallback: T
+  ): T {
+    const tile = this.getTileAt(layerName, x, y)?.tile;
+    return tile ? getProperty(tile, name, fallback) : fallback;
+  }
+
+  // A custom property of the map itself
+  getMapProperty<T>(name: string, fallback: T): T {
+    return getProperty(this.map, name, fallback);
+  }
+
+  // All objects across the map's object layers
+  getObjects(): TiledObject[] {
+    const objects: TiledObject[] = [];
     for (const layer of this.map.layers) {
-      if (layer.type !== "tilelayer") continue;
+      if (layer.type !== "objectgroup") continue;
+      objects.push(...layer.objects);
+    }
+    return objects;
+  }
+
+  // All objects of the given Tiled type across the map's object layers
+  getObjectsByType(type: string): TiledObject[] {
+    return this.getObjects().filter((object) => object.type === type);
+  }
 
-      if (x < 0 || x >= layer.width || y < 0 || y >= layer.height) {
-        return true; // Out of bounds tiles are blocked
-      }
+  getObjectByName(name: string): TiledObject | undefined {
+    return this.getObjects().find((object) => object.name === name);
+  }
+
+  getSpawnZones(): SpawnZone[] {
+    return this.getObjectsByType("enemy_spawn").map((object) => ({
+      id: object.id,
+      name: object.name,
+      x: object.x,
+      y: object.y,
+      width: object.width,
+      height: object.height,
+      enemyType: getProperty(object, "enemyType", DEFAULT_ENEMY_TYPE),
+      maxCount: getProperty(object, "maxCount", DEFAULT_MAX_COUNT),
+      respawnDelay: getProperty(object, "respawnDelay", DEFAULT_RESPAWN_DELAY),
+    }));
+  }
+
+  getPortals(): Portal[] {
+    return this.getObjectsByType("portal").map((object) => ({
+      id: object.id,
+      name: object.name,
+      x: object.x,
+      y: object.y,
+      width: object.width,
+      height: object.height,
+      targetZone: getProperty(object, "targetZone", ""),
+      targetSpawn: getProperty(object, "targetSpawn", ""),
+    }));
+  }
 
-      const index = y * layer.width + x;
-      const tile = layer.data[index];
-      if (this.collidableTiles.has(tile)) {
-        return true;
-      }
+  // The named player_spawn point, or without a name the map's first one,
+  // which is where players start and respawn
+  getPlayerSpawnPoint(name?: string): Position {
+    const spawn = this.getObjectsByType("player_spawn").find(
+      (object) => name === undefined || object.name === name
+    );
+    if (!spawn) {
+      throw new Error(
+        name === undefined
+          ? "Map has no player_spawn object"
+          : `Map has no player_spawn object named "${name}"`
+      );
     }
-    return false;
+    return { x: spawn.x, y: spawn.y };
   }
 }
@@ -0,0 +1,326 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { XMLParser } from "fast-xml-parser";
+import {
+  Layer,
+  ObjectLayer,
+  Tile,
+  TiledObject,
+  TiledProperty,
+  Tilemap,
+  Tileset,
+  TileLayer,
+} from "../../shared/tiled";
+import { Position } from "../../shared/movement";
+
+// One XML element, with its attributes and child elements in document order
+interface Element {
+  name: string;
+  attributes: { [key: string]: string };
+  children: Element[];
+  text: string;
+}
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseAttributeValue: false,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+/**
+ * Reads a Tiled TMX map, and the external TSX tilesets it references, into
+ * the same shape as Tiled's JSON export. Only finite orthogonal maps are
+ * supported, which is all the game uses.
+ */
+export function readTmxMap(mapPath: string): Tilemap {
+  const root = readRootElement(mapPath, "map");
+  const attributes = root.attributes;
+  if (attributes.infinite === "1") {
+    throw new Error(`${mapPath}: infinite maps are not supported`);
+  }
+  if (attributes.orientation !== "orthogonal") {
+    throw new Error(
+      `${mapPath}: ${attributes.orientation} maps are not supported`
+    );
+  }
+
+  const directory = path.dirname(mapPath);
+  const tilesets = root.children
+    .filter((child) => child.name === "tileset")
+    .map((element) => readTileset(element, directory));
+
+  return {
+    type: "map",
+    version: attributes.version,
+    tiledversion: attributes.tiledversion,
+    orientation: attributes.orientation,
+    renderorder: attributes.renderorder,
+    width: toNumber(attributes.width),
+    height: toNumber(attributes.height),
+    tilewidth: toNumber(attributes.tilewidth),
+    tileheight: toNumber(attributes.tileheight),
+    nextlayerid: toNumber(attributes.nextlayerid),
+    nextobjectid: toNumber(attributes.nextobjectid),
+    infinite: false,
+    layers: readLayers(root, mapPath),
+    tilesets,
+    properties: readProperties(root),
+  };
+}
+
+function readRootElement(filePath: string, name: string): Element {
+  const xml = fs.readFileSync(path.resolve(filePath), "utf-8");
+  const root = toElements(parser.parse(xml)).find(
+    (element) => element.name === name
+  );
+  if (!root) {
+    throw new Error(`${filePath}: no <${name}> element`);
+  }
+  return root;
+}
+
+// Turns fast-xml-parser's ordered output into plain elements
+function toElements(nodes: any[]): Element[] {
+  const elements: Element[] = [];
+  for (const node of nodes) {
+    const name = Object.keys(node).find((key) => key !== ":@");
+    if (!name || name === "#text" || name.startsWith("?")) continue;
+    const children: any[] = node[name];
+    elements.push({
+      name,
+      attributes: node[":@"] ?? {},
+      children: toElements(children),
+      text: children
+        .filter((child) => "#text" in child)
+        .map((child) => String(child["#text"]))
+        .join(""),
+    });
+  }
+  return elements;
+}
+
+function child(element: Element, name: string): Element | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+function toNumber(value: string | undefined, fallback = 0): number {
+  return value === undefined ? fallback : Number(value);
+}
+
+// Tiled leaves visible="1" out, so anything but "0" is visible
+function toVisible(value: string | undefined): boolean {
+  return value !== "0";
+}
+
+function readProperties(element: Element): TiledProperty[] | undefined {
+  const properties = child(element, "properties");
+  if (!properties) return undefined;
+
+  return properties.children
+    .filter((child) => child.name === "property")
+    .map((property) => {
+      const { name, type = "string" } = property.attributes;
+      // Multi-line strings are stored as the element's text
+      const raw = property.attributes.value ?? property.text;
+      let value: any = raw;
+      if (type === "int" || type === "float" || type === "object") {
+        value = Number(raw);
+      } else if (type === "bool") {
+        value = raw === "true";
+      } else if (type === "class") {
+        throw new Error(`Class property "${name}" is not supported`);
+      }
+      return { name, type, value };
+    });
+}
+
+function readTileset(element: Element, directory: string): Tileset {
+  const firstgid = toNumber(element.attributes.firstgid);
+  const source = element.attributes.source;
+  if (source) {
+    // External tilesets are resolved relative to the file referencing them
+    const tsxPath = path.join(directory, source);
+    const tsx = readRootElement(tsxPath, "tileset");
+    return readTilesetElement(tsx, firstgid);
+  }
+  return readTilesetElement(element, firstgid);
+}
+
+function readTilesetElement(element: Element, firstgid: number): Tileset {
+  const attributes = element.attributes;
+  const image = child(element, "image");
+  const tiles: Tile[] = element.children
+    .filter((child) => child.name === "tile")
+    .map((tileElement) => {
+      const tile: Tile = { id: toNumber(tileElement.attributes.id) };
+      const properties = readProperties(tileElement);
+      if (properties) tile.properties = properties;
+      const objectgroup = child(tileElement, "objectgroup");
+      if (objectgroup) tile.objectgroup = readObjectLayer(objectgroup);
+      const animation = child(tileElement, "animation");
+      if (animation) {
+        tile.animation = animation.children.map((frame) => ({
+          tileid: toNumber(frame.attributes.tileid),
+          duration: toNumber(frame.attributes.duration),
+        }));
+      }
+      return tile;
+    });
+
+  return {
+    firstgid,
+    name: attributes.name,
+    image: image?.attributes.source ?? "",
+    imagewidth: toNumber(image?.attributes.width),
+    imageheight: toNumber(image?.attributes.height),
+    tilewidth: toNumber(attributes.tilewidth),
+    tileheight: toNumber(attributes.tileheight),
+    tilecount: toNumber(attributes.tilecount),
+    columns: toNumber(attributes.columns),
+    tiles,
+  };
+}
+
+// Group layers are flattened; the game treats all layers alike anyway
+function readLayers(element: Element, mapPath: string): Layer[] {
+  const layers: Layer[] = [];
+  for (const child of element.children) {
+    if (child.name === "layer") {
+      layers.push(readTileLayer(child, mapPath));
+    } else if (child.name === "objectgroup") {
+      layers.push(readObjectLayer(child));
+    } else if (child.name === "group") {
+      layers.push(...readLayers(child, mapPath));
+    }
+  }
+  return layers;
+}
+
+function readTileLayer(element: Element, mapPath: string): TileLayer {
+  const attributes = element.attributes;
+  const width = toNumber(attributes.width);
+  const height = toNumber(attributes.height);
+  const dataElement = child(element, "data");
+  if (!dataElement) {
+    throw new Error(`${mapPath}: layer "${attributes.name}" has no data`);
+  }
+  const data = readTileData(dataElement);
+  if (data.length !== width * height) {
+    throw new Error(
+      `${mapPath}: layer "${attributes.name}" has ${data.length} tiles, expected ${width * height}`
+    );
+  }
+
+  return {
+    type: "tilelayer",
+    id: toNumber(attributes.id),
+    name: attributes.name ?? "",
+    x: 0,
+    y: 0,
+    width,
+    height,
+    visible: toVisible(attributes.visible),
+    opacity: toNumber(attributes.opacity, 1),
+    properties: readProperties(element),
+    data,
+  };
+}
+
+// Global tile ids, including their flip flags, in row-major order
+function readTileData(element: Element): number[] {
+  const { encoding, compression } = element.attributes;
+
+  if (encoding === undefined) {
+    return element.children
+      .filter((child) => child.name === "tile")
+      .map((tile) => toNumber(tile.attributes.gid));
+  }
+  if (encoding === "csv") {
+    return element.text
+      .split(",")
+      .map((gid) => gid.trim())
+      .filter((gid) => gid !== "")
+      .map(Number);
+  }
+  if (encoding !== "base64") {
+    throw new Error(`Unsupported tile data encoding "${encoding}"`);
+  }
+
+  let bytes = Buffer.from(element.text.trim(), "base64");
+  if (compression === "zlib") {
+    bytes = zlib.inflateSync(bytes);
+  } else if (compression === "gzip") {
+    bytes = zlib.gunzipSync(bytes);
+  } else if (compression !== undefined) {
+    throw new Error(`Unsupported tile data compression "${compression}"`);
+  }
+
+  const data: number[] = [];
+  for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+    data.push(bytes.readUInt32LE(offset));
+  }
+  return data;
+}
+
+function readObjectLayer(element: Element): ObjectLayer {
+  const attributes = element.attributes;
+  return {
+    type: "objectgroup",
+    id: toNumber(attributes.id),
+    name: attributes.name ?? "",
+    x: 0,
+    y: 0,
+    visible: toVisible(attributes.visible),
+    opacity: toNumber(attributes.opacity, 1),
+    draworder: attributes.draworder ?? "topdown",
+    properties: readProperties(element),
+    objects: element.children
+      .filter((child) => child.name === "object")
+      .map(readObject),
+  };
+}
+
+function readObject(element: Element): TiledObject {
+  const attributes = element.attributes;
+  if (attributes.template) {
+    throw new Error(`Object ${attributes.id} uses a template, not supported`);
+  }
+
+  const object: TiledObject = {
+    id: toNumber(attributes.id),
+    name: attributes.name ?? "",
+    // Tiled 1.9 renamed an object's "type" to "class"
+    type: attributes.type ?? attributes.class ?? "",
+    x: toNumber(attributes.x),
+    y: toNumber(attributes.y),
+    width: toNumber(attributes.width),
+    height: toNumber(attributes.height),
+    rotation: toNumber(attributes.rotation),
+    visible: toVisible(attributes.visible),
+  };
+  const properties = readProperties(element);
+  if (properties) object.properties = properties;
+
+  if (child(element, "point")) object.point = true;
+  if (child(element, "ellipse")) object.ellipse = true;
+  const polygon = child(element, "polygon");
+  if (polygon) object.polygon = readPoints(polygon.attributes.points);
+  const polyline = child(element, "polyline");
+  if (polyline) object.polyline = readPoints(polyline.attributes.points);
+  return object;
+}
+
+// "x1,y1 x2,y2 ..." as used by polygons and polylines
+function readPoints(points: string): Position[] {
+  return points
+    .trim()
+    .split(/\s+/)
+    .map((point) => {
+      const [x, y] = point.split(",").map(Number);
+      return { x, y };
+    });
+}
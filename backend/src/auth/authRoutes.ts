@@ -0,0 +1,121 @@
+import express, { Request, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { createPlayerData } from "../entities/Player";
+import { createEmptyEquipment } from "../../../shared/items";
+import { createEmptyAllocation } from "../../../shared/stats";
+import { PlayerRepository } from "../persistence/PlayerRepository";
+import { hashPassword, verifyPassword } from "./passwords";
+import { createSessionToken } from "./sessionTokens";
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{3,20}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+function parseCredentials(body: unknown): Credentials | string {
+  const { username, password } = (body ?? {}) as Partial<Credentials>;
+  if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+    return "Username must be 3-20 letters, digits or underscores";
+  }
+  if (
+    typeof password !== "string" ||
+    password.length < MIN_PASSWORD_LENGTH ||
+    password.length > MAX_PASSWORD_LENGTH
+  ) {
+    return `Password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters`;
+  }
+  return { username, password };
+}
+
+/**
+ * Account routes. Both endpoints answer with `{ playerId, token }`; the token
+ * is what the client hands to the Socket.IO handshake.
+ */
+export function createAuthRouter(playerRepository: PlayerRepository) {
+  const router = express.Router();
+
+  // The Vite dev server runs on a different origin than the backend
+  router.use((req, res, next) => {
+    res.header("Access-Control-Allow-Origin", "*");
+    res.header("Access-Control-Allow-Headers", "Content-Type");
+    res.header("Access-Control-Allow-Methods", "POST, OPTIONS");
+    if (req.method === "OPTIONS") {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  });
+  router.use(express.json());
+
+  router.post("/register", async (req: Request, res: Response) => {
+    const credentials = parseCredentials(req.body);
+    if (typeof credentials === "string") {
+      res.status(400).json({ error: credentials });
+      return;
+    }
+
+    try {
+      const playerId = uuidv4();
+      const { salt, hash } = await hashPassword(credentials.password);
+      const created = await playerRepository.create({
+        ...createPlayerData(playerId),
+        statPoints: 0,
+        allocatedStats: createEmptyAllocation(),
+        inventory: [],
+        equipment: createEmptyEquipment(),
+        credentials: {
+          username: credentials.username.toLowerCase(),
+          passwordHash: hash,
+          salt,
+        },
+      });
+      if (!created) {
+        res.status(409).json({ error: "Username is already taken" });
+        return;
+      }
+
+      res.status(201).json({ playerId, token: createSessionToken(playerId) });
+    } catch (err) {
+      console.error("Registration failed:", err);
+      res.status(500).json({ error: "Registration failed" });
+    }
+  });
+
+  router.post("/login", async (req: Request, res: Response) => {
+    const credentials = parseCredentials(req.body);
+    if (typeof credentials === "string") {
+      res.status(401).json({ error: "Invalid username or password" });
+      return;
+    }
+
+    try {
+      const player = await playerRepository.findByUsername(
+        credentials.username.toLowerCase()
+      );
+      const valid =
+        player?.credentials &&
+        (await verifyPassword(credentials.password, {
+          salt: player.credentials.salt,
+          hash: player.credentials.passwordHash,
+        }));
+      if (!player || !valid) {
+        res.status(401).json({ error: "Invalid username or password" });
+        return;
+      }
+
+      res.json({
+        playerId: player.playerId,
+        token: createSessionToken(player.playerId),
+      });
+    } catch (err) {
+      console.error("Login failed:", err);
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,34 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export interface PasswordHash {
+  salt: string;
+  hash: string;
+}
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const derived = await scrypt(password, salt, KEY_LENGTH);
+  return { salt, hash: derived.toString("hex") };
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: PasswordHash
+): Promise<boolean> {
+  const derived = await scrypt(password, stored.salt, KEY_LENGTH);
+  const expected = Buffer.from(stored.hash, "hex");
+  // Compare in constant time so the check doesn't leak how much matched
+  return (
+    expected.length === derived.length &&
+    crypto.timingSafeEqual(expected, derived)
+  );
+}
@@ -0,0 +1,62 @@
+import crypto from "crypto";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // one week
+
+// Without a configured secret, sessions only survive until the server restarts
+const secret =
+  process.env.SESSION_SECRET ||
+  (() => {
+    console.warn(
+      "SESSION_SECRET is not set; using a random secret for this process"
+    );
+    return crypto.randomBytes(32).toString("hex");
+  })();
+
+interface SessionPayload {
+  playerId: string;
+  expiresAt: number;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+export function createSessionToken(playerId: string): string {
+  const payload: SessionPayload = {
+    playerId,
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Returns the playerId the token was issued for, or null if the token is
+ * malformed, tampered with or expired.
+ */
+export function verifySessionToken(token: unknown): string | null {
+  if (typeof token !== "string") return null;
+
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload: SessionPayload = JSON.parse(
+      Buffer.from(encoded, "base64url").toString("utf-8")
+    );
+    if (typeof payload.playerId !== "string") return null;
+    if (payload.expiresAt < Date.now()) return null;
+    return payload.playerId;
+  } catch {
+    return null;
+  }
+}
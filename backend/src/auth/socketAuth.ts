@@ -0,0 +1,16 @@
+import { Socket } from "socket.io";
+import { verifySessionToken } from "./sessionTokens";
+
+/**
+ * Socket.IO handshake middleware. Resolves the session token sent in
+ * `socket.handshake.auth` to a playerId before any event handler runs, so
+ * handlers never have to trust an id supplied by the client.
+ */
+export function socketAuth(socket: Socket, next: (err?: Error) => void) {
+  const playerId = verifySessionToken(socket.handshake.auth?.token);
+  if (!playerId) {
+    return next(new Error("unauthorized"));
+  }
+  socket.data.playerId = playerId;
+  next();
+}
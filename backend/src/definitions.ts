@@ -0,0 +1,38 @@
+import * as fs from "fs";
+import * as path from "path";
+import { EnemyType, validateEnemyType } from "../../shared/enemyTypes";
+import { ItemDefinition, validateItemDefinition } from "../../shared/items";
+
+export type EnemyTypes = { [type: string]: EnemyType };
+export type ItemDefinitions = { [itemId: string]: ItemDefinition };
+
+export function loadEnemyTypes(directory: string): EnemyTypes {
+  return loadDefinitions(directory, validateEnemyType, (enemy) => enemy.type);
+}
+
+export function loadItemDefinitions(directory: string): ItemDefinitions {
+  return loadDefinitions(directory, validateItemDefinition, (item) => item.id);
+}
+
+// Reads every definition file in the directory, keyed by `keyOf`
+function loadDefinitions<T>(
+  directory: string,
+  validate: (data: unknown, source: string) => T,
+  keyOf: (definition: T) => string
+): { [key: string]: T } {
+  const fullPath = path.resolve(directory);
+  const definitions: { [key: string]: T } = {};
+
+  for (const file of fs.readdirSync(fullPath)) {
+    if (path.extname(file) !== ".json") continue;
+
+    const rawData = fs.readFileSync(path.join(fullPath, file), "utf-8");
+    const definition = validate(JSON.parse(rawData), file);
+    const key = keyOf(definition);
+    if (definitions[key]) {
+      throw new Error(`"${key}" is defined twice in ${directory}`);
+    }
+    definitions[key] = definition;
+  }
+  return definitions;
+}
@@ -1,19 +1,21 @@
 import { v4 as uuidv4 } from "uuid";
 import { Player } from "./Player";
-import { players } from "../server";
+import { SpatialHash } from "../spatial/SpatialHash";
+import { MapLoader } from "../MapLoader";
+import { Pathfinder } from "../pathfinding/Pathfinder";
+import { Position } from "../../../shared/movement";
+import { moveBody } from "../../../shared/collision";
+import {
+  EnemyCycleAction,
+  EnemyMovement,
+  EnemyType,
+} from "../../../shared/enemyTypes";
 
-export interface EnemyData {
-  id: string;
-  position: { x: number; y: number };
-  health: number;
-  direction: string;
-  action: string;
-}
-
-type ActionType = "hop" | "longJump" | "idle" | "confused";
+type ActionType = EnemyCycleAction | "confused";
 
 export class Enemy {
   id: string;
+  type: string;
   position: { x: number; y: number };
   health: number;
   alive: boolean;
@@ -21,59 +23,96 @@ export class Enemy {
   direction: string;
   action: ActionType;
   targetPlayerId: string | null = null;
+  // Where the target was as of this tick
+  private targetPosition: Position | null = null;
   lastMovement: ActionType | null = null;
 
-  // New properties for managing action cycles
-  private actionCycle: ActionType[] = [
-    "hop",
-    "idle",
-    "longJump",
-    "idle",
-    "idle",
-  ];
+  // Stats and behaviour shared by every enemy of this type
+  private definition: EnemyType;
   private currentActionIndex: number = 0;
   private actionTimer: number = 0; // in milliseconds
 
-  // Configuration for movement distances and pause durations
-  private readonly HOP_DISTANCE = 10;
-  private readonly LONG_JUMP_DISTANCE = 60;
-  private readonly PAUSE_DURATION = 1000;
-  private readonly MOVE_DURATION = 1000;
-  private readonly LONG_JUMP_DURATION = 600;
+  // Players touching the enemy take its contact damage, at most once per
+  // cooldown
+  private readonly CONTACT_RANGE = 20;
+  private readonly ATTACK_COOLDOWN = 1000;
+  private attackCooldown: number = 0;
 
-  constructor() {
+  // Waypoints toward the target, nearest first
+  private path: Position[] = [];
+  // Where the target was when the current path was requested
+  private pathGoal: Position | null = null;
+  // How far the target can move before the path is worked out again
+  private readonly REPATH_DISTANCE = 32;
+  // Close enough to a waypoint to head for the next one
+  private readonly WAYPOINT_RADIUS = 4;
+
+  constructor(position: { x: number; y: number }, definition: EnemyType) {
     this.id = uuidv4();
-    this.position = { x: Math.random() * 800, y: Math.random() * 600 };
-    this.health = 30;
+    this.type = definition.type;
+    this.definition = definition;
+    this.position = { ...position };
+    this.health = definition.health;
     this.alive = true;
     this.velocity = { x: 0, y: 0 };
     this.direction = "down";
     this.action = "idle";
   }
 
-  move(deltaTime: number) {
+  move(deltaTime: number, mapLoader: MapLoader) {
     if (!this.alive) return;
 
-    // Update position based on current velocity
+    // Update position based on current velocity, sliding along whatever is
+    // in the way
     const deltaSeconds = deltaTime / 1000;
-    this.position.x += this.velocity.x * deltaSeconds;
-    this.position.y += this.velocity.y * deltaSeconds;
+    const dx = this.velocity.x * deltaSeconds;
+    const dy = this.velocity.y * deltaSeconds;
+    const swept = moveBody(
+      this.position,
+      dx,
+      dy,
+      this.definition.body,
+      mapLoader
+    );
+    // Whatever happens, enemies never leave the map
+    const moved = {
+      x: this.clamp(swept.x, mapLoader.widthInPixels),
+      y: this.clamp(swept.y, mapLoader.heightInPixels),
+    };
+    const blockedX = moved.x !== this.position.x + dx;
+    const blockedY = moved.y !== this.position.y + dy;
+    this.position = moved;
 
-    // Clamp position within boundaries
-    this.position.x = Math.max(0, Math.min(800, this.position.x));
-    this.position.y = Math.max(0, Math.min(600, this.position.y));
+    if ((blockedX || blockedY) && this.action === "longJump") {
+      // Cut the jump short rather than land it on a blocked tile
+      this.velocity = { x: 0, y: 0 };
+      this.actionTimer = 0;
+    }
 
     // Update action timer
     this.actionTimer -= deltaTime;
 
     if (this.actionTimer <= 0) {
       this.currentActionIndex =
-        (this.currentActionIndex + 1) % this.actionCycle.length;
-      const nextAction = this.actionCycle[this.currentActionIndex];
+        (this.currentActionIndex + 1) % this.definition.actionCycle.length;
+      const nextAction = this.definition.actionCycle[this.currentActionIndex];
       this.executeAction(nextAction);
     }
   }
 
+  get contactDamage(): number {
+    return this.definition.contactDamage;
+  }
+
+  get expReward(): number {
+    return this.definition.expReward;
+  }
+
+  // Keeps a coordinate inside the map, which spans 0 to `size` pixels
+  private clamp(value: number, size: number): number {
+    return Math.max(0, Math.min(size - 1, value));
+  }
+
   takeDamage(amount: number): boolean {
     this.health -= amount;
     if (this.health <= 0) {
@@ -82,49 +121,91 @@ export class Enemy {
     }
     this.velocity = { x: 0, y: 0 };
     this.action = "confused";
-    this.actionTimer = this.PAUSE_DURATION;
+    this.actionTimer = this.definition.pauseDuration;
     return false;
   }
 
   /**
    * Finds the closest target player within detection radius.
    */
-  findTarget(players: { [key: string]: Player }): void {
+  findTarget(
+    players: { [key: string]: Player },
+    playerIndex: SpatialHash<Player>
+  ): void {
     if (this.targetPlayerId && players[this.targetPlayerId]?.isAlive) return;
 
-    let closestPlayerId: string | null = null;
-    let minDistance = Infinity;
-    const detectionRadius = 50;
-
-    for (const playerId in players) {
-      const player = players[playerId];
-      const distance = this.getDistance(this.position, player.position);
-      if (distance < minDistance && distance <= detectionRadius) {
-        minDistance = distance;
-        closestPlayerId = playerId;
-      }
-    }
+    const closestPlayer = playerIndex.findNearest(
+      this.position,
+      this.definition.detectionRadius,
+      (player) => player.isAlive
+    );
 
-    if (closestPlayerId) {
-      this.targetPlayerId = closestPlayerId;
+    if (closestPlayer) {
+      this.targetPlayerId = closestPlayer.playerId;
+      this.targetPosition = { ...closestPlayer.position };
       this.currentActionIndex = -1; // Start cycle from the first action
       this.executeNextAction();
     }
   }
 
+  /**
+   * Returns the living players in contact with the enemy once its attack
+   * cooldown has run out. A stunned enemy doesn't attack.
+   */
+  findContactTargets(
+    deltaTime: number,
+    playerIndex: SpatialHash<Player>
+  ): Player[] {
+    this.attackCooldown = Math.max(0, this.attackCooldown - deltaTime);
+    if (!this.alive || this.attackCooldown > 0 || this.action === "confused") {
+      return [];
+    }
+
+    const targets = playerIndex
+      .queryRadius(this.position, this.CONTACT_RANGE)
+      .filter((player) => player.isAlive);
+    if (targets.length > 0) {
+      this.attackCooldown = this.ATTACK_COOLDOWN;
+    }
+    return targets;
+  }
+
   /**
    * Executes the next action in the cycle.
    */
-  performAction(players: { [key: string]: Player }): void {
+  performAction(
+    players: { [key: string]: Player },
+    pathfinder: Pathfinder
+  ): void {
     if (!this.targetPlayerId) return;
 
     const target = players[this.targetPlayerId];
     if (!target || !target.isAlive) {
       this.targetPlayerId = null;
+      this.targetPosition = null;
       this.action = "idle";
       this.velocity = { x: 0, y: 0 };
+      this.path = [];
+      this.pathGoal = null;
+      pathfinder.cancel(this.id);
       return;
     }
+    this.targetPosition = { ...target.position };
+
+    if (
+      !this.pathGoal ||
+      distanceBetween(target.position, this.pathGoal) > this.REPATH_DISTANCE
+    ) {
+      this.pathGoal = { ...target.position };
+      pathfinder.requestPath(
+        this.id,
+        this.position,
+        target.position,
+        (path) => {
+          this.path = path ?? [];
+        }
+      );
+    }
   }
 
   /**
@@ -141,7 +222,7 @@ export class Enemy {
       case "idle":
         this.velocity = { x: 0, y: 0 };
         this.action = "idle";
-        this.actionTimer = this.PAUSE_DURATION;
+        this.actionTimer = this.definition.pauseDuration;
         break;
       default:
         this.velocity = { x: 0, y: 0 };
@@ -155,21 +236,27 @@ export class Enemy {
    */
   private executeNextAction() {
     this.currentActionIndex =
-      (this.currentActionIndex + 1) % this.actionCycle.length;
-    const nextAction = this.actionCycle[this.currentActionIndex];
+      (this.currentActionIndex + 1) % this.definition.actionCycle.length;
+    const nextAction = this.definition.actionCycle[this.currentActionIndex];
     this.executeAction(nextAction);
   }
 
   /**
    * Sets the velocity based on the movement type towards the target position.
    */
-  private setMovement(movementType: "hop" | "longJump") {
-    if (!this.targetPlayerId) return;
-
-    const target = players[this.targetPlayerId];
+  private setMovement(movementType: EnemyMovement) {
+    const target = this.targetPosition;
     if (!target) return;
 
-    const targetPos = target.position;
+    // Follow the path while there is one, otherwise head straight for the
+    // target
+    while (
+      this.path.length > 0 &&
+      distanceBetween(this.position, this.path[0]) <= this.WAYPOINT_RADIUS
+    ) {
+      this.path.shift();
+    }
+    const targetPos = this.path[0] ?? target;
     const dx = targetPos.x - this.position.x;
     const dy = targetPos.y - this.position.y;
     const angle = Math.atan2(dy, dx);
@@ -182,13 +269,12 @@ export class Enemy {
     }
 
     // Set distance based on movement type
-    let distance, duration;
-    if (movementType === "hop") {
-      distance = this.HOP_DISTANCE;
-      duration = this.MOVE_DURATION;
-    } else {
-      distance = this.LONG_JUMP_DISTANCE;
-      duration = this.LONG_JUMP_DURATION;
+    const movement = this.definition.movements[movementType];
+    const duration = movement.duration;
+    let distance = movement.distance;
+    // Land on a waypoint instead of overshooting the corner it marks
+    if (this.path.length > 0) {
+      distance = Math.min(distance, Math.hypot(dx, dy));
     }
     const speed = distance / (duration / 1000); // distance per second
 
@@ -199,13 +285,8 @@ export class Enemy {
     this.actionTimer = duration;
     this.action = movementType;
   }
+}
 
-  private getDistance(
-    pos1: { x: number; y: number },
-    pos2: { x: number; y: number }
-  ): number {
-    const dx = pos1.x - pos2.x;
-    const dy = pos1.y - pos2.y;
-    return Math.sqrt(dx * dx + dy * dy);
-  }
+function distanceBetween(a: Position, b: Position): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
 }
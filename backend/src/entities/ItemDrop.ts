@@ -0,0 +1,34 @@
+import { v4 as uuidv4 } from "uuid";
+
+// How long items stay on the ground before disappearing
+const DROP_LIFETIME = 60 * 1000;
+
+// A stack of items lying in the world, waiting to be picked up
+export class ItemDrop {
+  id: string;
+  itemId: string;
+  quantity: number;
+  position: { x: number; y: number };
+  // The player who dropped it can't pick it back up until they step away
+  ignoredBy: string | null;
+  private lifetime: number = DROP_LIFETIME;
+
+  constructor(
+    itemId: string,
+    quantity: number,
+    position: { x: number; y: number },
+    ignoredBy: string | null = null
+  ) {
+    this.id = uuidv4();
+    this.itemId = itemId;
+    this.quantity = quantity;
+    this.position = { ...position };
+    this.ignoredBy = ignoredBy;
+  }
+
+  // Returns true once the drop has been on the ground too long
+  updateLifetime(deltaTime: number): boolean {
+    this.lifetime -= deltaTime;
+    return this.lifetime <= 0;
+  }
+}
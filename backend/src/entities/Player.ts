@@ -1,9 +1,59 @@
-import { ObjectId } from "mongodb";
-import { TICK_RATE } from "../server";
 import { MapLoader } from "../MapLoader";
+import { Inventory } from "../inventory/Inventory";
+import { Equipment } from "../inventory/Equipment";
+import {
+  EquipmentSlot,
+  EquippedItems,
+  InventorySlot,
+  InventorySlots,
+} from "../../../shared/items";
+import {
+  ALLOCATABLE_STATS,
+  AllocatableStat,
+  AllocatedStats,
+  expToNextLevel,
+  PlayerStats,
+  PROGRESSION,
+  statsForLevel,
+} from "../../../shared/stats";
+import { applyPlayerInput, PlayerInput } from "../../../shared/movement";
+import { PlayerAppearance, PlayerState } from "../../../shared/protocol";
+import {
+  ATTACK_TIMING,
+  AttackHitbox,
+  attackActiveWindow,
+  MAX_ATTACK_REWIND,
+  UNARMED_HITBOX,
+} from "../../../shared/combat";
+import { DEFAULT_ZONE } from "../../../shared/zones";
+
+// Inputs beyond this are dropped so a flooding client can't build a backlog
+const MAX_QUEUED_INPUTS = 10;
+// Lets a client catch up after a stall without moving faster than normal
+const MAX_INPUTS_PER_TICK = 3;
+
+// An input and how far behind the server the client's view of the world
+// was when it was sent, in milliseconds
+interface QueuedInput {
+  input: PlayerInput;
+  viewDelay: number;
+}
+
+// A swing in progress and who it has already hit, so each target is hit at
+// most once per swing
+interface Swing {
+  elapsed: number; // ms since the swing started
+  hitTargets: Set<string>;
+  // How far in the past hits are checked, to match what the attacker saw
+  rewind: number; // ms
+}
+
+// Share of the current level's exp requirement lost on death
+const DEATH_EXP_PENALTY = 0.1;
 
 export interface PlayerData {
   playerId: string;
+  zone: string;
   position: { x: number; y: number };
   level: number;
   exp: number;
@@ -11,14 +61,54 @@ export interface PlayerData {
   socketId: string;
   direction: string;
   action: string;
+  appearance: PlayerAppearance;
+}
+
+/**
+ * Login details are stored next to the player's state, but never inside
+ * PlayerData, so they can't leak into anything broadcast.
+ */
+export interface PlayerCredentials {
+  username: string;
+  passwordHash: string;
+  salt: string;
+}
+
+// Stat points earned by levelling up, spent or not
+export interface PlayerProgress {
+  statPoints: number;
+  allocatedStats: AllocatedStats;
 }
 
-export interface PlayerDocument extends PlayerData {
-  _id: ObjectId;
+// Everything saved for a player, including what only its owner gets to see
+export interface PlayerSaveData extends PlayerData, PlayerProgress {
+  inventory: InventorySlots;
+  equipment: EquippedItems;
+}
+
+// A player as kept in storage
+export interface PlayerRecord extends PlayerSaveData {
+  credentials: PlayerCredentials;
+}
+
+export function createPlayerData(playerId: string): PlayerData {
+  return {
+    playerId,
+    zone: DEFAULT_ZONE,
+    position: { x: 300, y: 200 },
+    level: 1,
+    exp: 0,
+    health: PROGRESSION.baseStats.maxHealth,
+    socketId: "",
+    direction: "right",
+    action: "idle",
+    appearance: { weapon: null },
+  };
 }
 
 export class Player {
   playerId: string;
+  zone: string;
   position: { x: number; y: number };
   level: number;
   exp: number;
@@ -26,21 +116,36 @@ export class Player {
   socketId: string;
   direction: string;
   action: string;
-  isAlive: boolean = true;
-  speed: number = 60;
-
-  // Store the latest input from the client
-  currentInput: Partial<{
-    left: boolean;
-    right: boolean;
-    up: boolean;
-    down: boolean;
-    direction: string;
-    action: string;
-  }> = {};
-
-  constructor(data: PlayerData) {
+  isAlive: boolean;
+  inventory: Inventory;
+  equipment: Equipment;
+  statPoints: number;
+  allocatedStats: AllocatedStats;
+  // Stats for the current level, allocation and equipment, kept up to date
+  // as any of them change
+  stats: PlayerStats = { ...PROGRESSION.baseStats };
+  appearance: PlayerAppearance = { weapon: null };
+
+  // Inputs received from the client, processed in order on the next ticks
+  private inputQueue: QueuedInput[] = [];
+  // Sequence number of the last processed input, echoed back for reconciliation
+  lastProcessedInput: number = 0;
+  // Set whenever persisted state changes, cleared once it has been saved
+  private dirty: boolean = false;
+  // Time left until a dead player respawns, in milliseconds
+  private respawnTimer: number = 0;
+  private swing: Swing | null = null;
+  // Time left until the player can swing again, in milliseconds
+  private attackCooldown: number = 0;
+
+  constructor(
+    data: PlayerData,
+    progress: PlayerProgress,
+    inventory: Inventory,
+    equipment: Equipment
+  ) {
     this.playerId = data.playerId;
+    this.zone = data.zone;
     this.position = data.position;
     this.level = data.level;
     this.exp = data.exp;
@@ -48,80 +153,326 @@ export class Player {
     this.socketId = data.socketId;
     this.direction = data.direction;
     this.action = data.action;
+    this.isAlive = this.health > 0;
+    this.statPoints = progress.statPoints;
+    this.allocatedStats = { ...progress.allocatedStats };
+    this.inventory = inventory;
+    this.equipment = equipment;
+    this.updateStats();
   }
 
-  // Update the stored input
-  setInput(
-    input: Partial<{
-      left: boolean;
-      right: boolean;
-      up: boolean;
-      down: boolean;
-      direction: string;
-      action: string;
-    }>
-  ) {
-    // multiple player inputs can come in, so remember if its an attack
-    // this is not super elegant, may be a better way to rework this
-    const prev = this.currentInput;
-    this.currentInput = input;
-    if (prev?.action === "attack") {
-      this.currentInput.action = "attack";
+  // Queue an input from the client
+  setInput(input: PlayerInput, viewDelay = 0) {
+    // Stale or replayed inputs would move the player twice
+    if (
+      !Number.isSafeInteger(input.seq) ||
+      input.seq <= this.lastProcessedInput
+    ) {
+      return;
     }
+
+    this.inputQueue.push({ input, viewDelay });
+    if (this.inputQueue.length > MAX_QUEUED_INPUTS) {
+      this.inputQueue.shift();
+    }
+  }
+
+  // Advances the current swing, returns true while it is in its active
+  // frames and can hit
+  updateAttack(deltaTime: number): boolean {
+    this.attackCooldown = Math.max(0, this.attackCooldown - deltaTime);
+    if (!this.swing) return false;
+
+    this.swing.elapsed += deltaTime;
+    const { start, end } = attackActiveWindow();
+    if (this.swing.elapsed >= end) {
+      this.swing = null;
+      return false;
+    }
+    return this.swing.elapsed >= start;
+  }
+
+  // Returns false if the current swing already hit this target
+  registerHit(targetId: string): boolean {
+    if (!this.swing || this.swing.hitTargets.has(targetId)) return false;
+    this.swing.hitTargets.add(targetId);
+    return true;
+  }
+
+  // How far in the past the current swing's hits are checked, in ms
+  get attackRewind(): number {
+    return this.swing?.rewind ?? 0;
   }
 
-  isAttacking(): boolean {
-    return this.currentInput.action === "attack";
+  // The shape of the equipped weapon's swing
+  get attackHitbox(): AttackHitbox {
+    const weapon = this.equipment.get("weapon");
+    return (
+      (weapon && this.equipment.definitionOf(weapon)?.hitbox) || UNARMED_HITBOX
+    );
   }
 
-  // Process the stored input
+  // Starts a swing unless the last one is still cooling down. It hits what
+  // the player saw `viewDelay` ms ago, up to a limit so that a laggy client
+  // can't hit things long gone.
+  private startAttack(viewDelay: number): boolean {
+    if (this.attackCooldown > 0) return false;
+    this.swing = {
+      elapsed: 0,
+      hitTargets: new Set(),
+      rewind: Math.min(Math.max(viewDelay, 0), MAX_ATTACK_REWIND),
+    };
+    this.attackCooldown = ATTACK_TIMING.cooldown;
+    return true;
+  }
+
+  // Process queued inputs, one movement step each
   processInput(mapLoader: MapLoader): void {
-    const input = this.currentInput;
+    const inputs = this.inputQueue.splice(0, MAX_INPUTS_PER_TICK);
 
-    // Store potential new position
-    const newPosition = { ...this.position };
+    if (!this.isAlive) {
+      // Dead players can't move, but their inputs still count as processed
+      // so the client's prediction doesn't replay them after respawning
+      if (inputs.length > 0) {
+        this.lastProcessedInput = inputs[inputs.length - 1].input.seq;
+      }
+      return;
+    }
 
-    if (input.left) newPosition.x -= this.speed / TICK_RATE;
-    if (input.right) newPosition.x += this.speed / TICK_RATE;
-    if (input.up) newPosition.y -= this.speed / TICK_RATE;
-    if (input.down) newPosition.y += this.speed / TICK_RATE;
+    for (const { input, viewDelay } of inputs) {
+      // Same rules the client uses to predict its own movement
+      const newPosition = applyPlayerInput(
+        this.position,
+        input,
+        this.stats.moveSpeed,
+        mapLoader
+      );
+      if (newPosition !== this.position) {
+        this.position = newPosition;
+        this.dirty = true;
+      }
 
-    const spriteSize = 32;
-    const halfSpriteSize = spriteSize / 2;
-    // todo: x collision buffer is a magic number...
-    // can we get more precise here or share it elsewhere?
-    const collisionX = newPosition.x - 2;
-    const collisionY = newPosition.y + halfSpriteSize;
+      if (input.direction && input.direction !== this.direction) {
+        this.direction = input.direction;
+        this.dirty = true;
+      }
 
-    // Check for collisions before updating position
-    if (
-      !mapLoader.isTileBlocked(
-        Math.floor(collisionX / 16),
-        Math.floor(collisionY / 16)
-      )
+      // Attacking during the cooldown does nothing, as if the key wasn't
+      // pressed
+      if (input.action === "attack") {
+        if (this.startAttack(viewDelay)) {
+          this.action = input.action;
+        }
+      } else if (input.action) {
+        this.action = input.action;
+      }
+
+      this.lastProcessedInput = input.seq;
+    }
+  }
+
+  get maxHealth(): number {
+    return this.stats.maxHealth;
+  }
+
+  // Returns how many levels the exp was worth, which can be more than one
+  gainExp(amount: number): number {
+    this.exp += amount;
+    this.dirty = true;
+
+    let levelsGained = 0;
+    while (
+      this.level < PROGRESSION.maxLevel &&
+      this.exp >= expToNextLevel(this.level)
     ) {
-      this.position = newPosition; // Update position only if no collision
+      this.exp -= expToNextLevel(this.level);
+      this.level += 1;
+      this.statPoints += PROGRESSION.statPointsPerLevel;
+      levelsGained++;
+    }
+    if (this.level === PROGRESSION.maxLevel) {
+      this.exp = 0; // Nothing left to earn
     }
 
-    if (input.direction) {
-      this.direction = input.direction;
+    if (levelsGained > 0) {
+      this.updateStats();
+      // Levelling up heals fully
+      if (this.isAlive) {
+        this.health = this.maxHealth;
+      }
     }
+    return levelsGained;
+  }
 
-    if (input.action) {
-      this.action = input.action;
+  // Spends one stat point, returns false if there are none or the stat
+  // can't take points
+  allocateStat(stat: AllocatableStat): boolean {
+    if (this.statPoints <= 0 || !ALLOCATABLE_STATS.includes(stat)) {
+      return false;
     }
+    this.statPoints -= 1;
+    this.allocatedStats[stat] += 1;
+    this.updateStats();
+    this.dirty = true;
+    return true;
+  }
+
+  // Defense softens every hit, but never below 1 damage. Returns true if the
+  // damage killed the player.
+  takeDamage(amount: number, respawnDelay: number): boolean {
+    if (!this.isAlive) return false;
+
+    const damage = Math.max(1, amount - this.stats.defense);
+    this.health = Math.max(0, this.health - damage);
+    this.dirty = true;
+    if (this.health > 0) return false;
 
-    // Reset current input after processing
-    this.currentInput = {};
+    this.isAlive = false;
+    this.action = "die";
+    this.swing = null;
+    this.respawnTimer = respawnDelay;
+    this.exp = Math.max(
+      0,
+      this.exp - Math.floor(expToNextLevel(this.level) * DEATH_EXP_PENALTY)
+    );
+    return true;
   }
 
-  gainExp(amount: number): boolean {
-    this.exp += amount;
-    if (this.exp >= this.level * 100) {
-      this.exp -= this.level * 100;
-      this.level += 1;
-      return true; // Indicates level up
+  // Counts down while dead, returns true once the player should respawn
+  updateRespawnTimer(deltaTime: number): boolean {
+    if (this.isAlive) return false;
+    this.respawnTimer -= deltaTime;
+    return this.respawnTimer <= 0;
+  }
+
+  respawn(position: { x: number; y: number }) {
+    this.position = { ...position };
+    this.health = this.maxHealth;
+    this.isAlive = true;
+    this.action = "idle";
+    this.inputQueue = [];
+    this.dirty = true;
+  }
+
+  // Places the player in another zone. Inputs sent for the old map no
+  // longer apply.
+  moveToZone(zone: string, position: { x: number; y: number }) {
+    this.zone = zone;
+    this.position = { ...position };
+    this.inputQueue = [];
+    this.swing = null;
+    this.dirty = true;
+  }
+
+  // Returns how many of the items were picked up
+  pickUp(itemId: string, quantity: number): number {
+    const pickedUp = quantity - this.inventory.add(itemId, quantity);
+    if (pickedUp > 0) {
+      this.dirty = true;
+    }
+    return pickedUp;
+  }
+
+  // Takes items out of an inventory slot, e.g. to drop them
+  removeItem(slot: number, quantity: number): InventorySlot | null {
+    const removed = this.inventory.removeFromSlot(slot, quantity);
+    if (removed) {
+      this.dirty = true;
+    }
+    return removed;
+  }
+
+  /**
+   * Wears the item in an inventory slot. Whatever it replaces goes back into
+   * the inventory. Returns false if the item can't be worn.
+   */
+  equip(inventorySlot: number): boolean {
+    const slot = this.inventory.getSlot(inventorySlot);
+    const definition = slot && this.equipment.definitionOf(slot.itemId);
+    if (!slot || !definition) return false;
+
+    const previous = this.equipment.get(definition.slot);
+    // Taking the last item out of a slot makes room for the previous one
+    if (
+      previous &&
+      slot.quantity > 1 &&
+      !this.inventory.hasRoomFor(previous, 1)
+    ) {
+      return false;
     }
-    return false;
+
+    this.inventory.removeFromSlot(inventorySlot, 1);
+    if (previous) {
+      this.inventory.add(previous, 1);
+    }
+    this.equipment.set(definition.slot, slot.itemId);
+    this.updateStats();
+    this.dirty = true;
+    return true;
+  }
+
+  // Moves a worn item back into the inventory, if there is room for it
+  unequip(equipmentSlot: EquipmentSlot): boolean {
+    const itemId = this.equipment.get(equipmentSlot);
+    if (!itemId || !this.inventory.hasRoomFor(itemId, 1)) return false;
+
+    this.inventory.add(itemId, 1);
+    this.equipment.set(equipmentSlot, null);
+    this.updateStats();
+    this.dirty = true;
+    return true;
+  }
+
+  private updateStats() {
+    this.stats = this.equipment.applyTo(
+      statsForLevel(this.level, this.allocatedStats)
+    );
+    this.health = Math.min(this.health, this.maxHealth);
+    this.appearance = { weapon: this.equipment.get("weapon") };
+  }
+
+  // What gets broadcast about the player
+  getState(): PlayerState {
+    return {
+      playerId: this.playerId,
+      zone: this.zone,
+      position: { ...this.position },
+      level: this.level,
+      exp: this.exp,
+      direction: this.direction,
+      action: this.action,
+      health: this.health,
+      maxHealth: this.maxHealth,
+      socketId: this.socketId,
+      appearance: { ...this.appearance },
+      lastProcessedInput: this.lastProcessedInput,
+    };
+  }
+
+  isDirty(): boolean {
+    return this.dirty;
+  }
+
+  // Marks the current state as saved and returns what needs saving
+  takeSaveData(): Partial<PlayerSaveData> {
+    this.dirty = false;
+    return {
+      zone: this.zone,
+      position: { ...this.position },
+      level: this.level,
+      exp: this.exp,
+      health: this.health,
+      direction: this.direction,
+      appearance: { ...this.appearance },
+      statPoints: this.statPoints,
+      allocatedStats: { ...this.allocatedStats },
+      inventory: this.inventory.getSlots(),
+      equipment: this.equipment.getEquipped(),
+    };
+  }
+
+  // A save failed, so the state still has to be written later
+  markDirty() {
+    this.dirty = true;
   }
 }
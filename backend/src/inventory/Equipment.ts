@@ -0,0 +1,60 @@
+import { ItemDefinitions } from "../definitions";
+import {
+  createEmptyEquipment,
+  EQUIPMENT_SLOTS,
+  EquipmentDefinition,
+  EquipmentSlot,
+  EquippedItems,
+} from "../../../shared/items";
+import { PlayerStats, STAT_NAMES } from "../../../shared/stats";
+
+// The items a player is wearing, one per equipment slot
+export class Equipment {
+  private equipped: EquippedItems = createEmptyEquipment();
+
+  constructor(
+    private items: ItemDefinitions,
+    saved: Partial<EquippedItems> = {}
+  ) {
+    for (const slot of EQUIPMENT_SLOTS) {
+      const itemId = saved[slot];
+      // Items removed or moved to another slot since they were saved are
+      // taken off
+      if (itemId && this.definitionOf(itemId)?.slot === slot) {
+        this.equipped[slot] = itemId;
+      }
+    }
+  }
+
+  // How an item is worn, or null if it can't be
+  definitionOf(itemId: string): EquipmentDefinition | null {
+    return this.items[itemId]?.equipment ?? null;
+  }
+
+  get(slot: EquipmentSlot): string | null {
+    return this.equipped[slot];
+  }
+
+  set(slot: EquipmentSlot, itemId: string | null) {
+    this.equipped[slot] = itemId;
+  }
+
+  getEquipped(): EquippedItems {
+    return { ...this.equipped };
+  }
+
+  // The base stats plus the bonuses of everything worn
+  applyTo(base: PlayerStats): PlayerStats {
+    const stats = { ...base };
+    for (const itemId of Object.values(this.equipped)) {
+      const bonuses = itemId ? this.definitionOf(itemId)?.stats : undefined;
+      for (const stat of STAT_NAMES) {
+        stats[stat] += bonuses?.[stat] ?? 0;
+      }
+    }
+    for (const stat of STAT_NAMES) {
+      stats[stat] = Math.max(0, stats[stat]);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,90 @@
+import { ItemDefinitions } from "../definitions";
+import {
+  INVENTORY_SIZE,
+  InventorySlot,
+  InventorySlots,
+} from "../../../shared/items";
+
+/**
+ * A player's items: a fixed number of slots, each holding one stack of a
+ * single item up to that item's stack limit.
+ */
+export class Inventory {
+  private slots: InventorySlots;
+
+  constructor(
+    private items: ItemDefinitions,
+    saved: InventorySlots = []
+  ) {
+    this.slots = Array.from({ length: INVENTORY_SIZE }, (_, index) => {
+      const slot = saved[index];
+      // Items whose definition has since been removed are dropped
+      if (!slot || !items[slot.itemId] || slot.quantity <= 0) return null;
+      return { ...slot };
+    });
+  }
+
+  /**
+   * Adds as much as fits, topping up existing stacks before using empty
+   * slots. Returns how many didn't fit.
+   */
+  add(itemId: string, quantity: number): number {
+    const maxStack = this.items[itemId]?.maxStack;
+    if (!maxStack) return quantity;
+
+    let remaining = quantity;
+    for (const slot of this.slots) {
+      if (remaining === 0) break;
+      if (slot?.itemId !== itemId) continue;
+      const added = Math.min(remaining, maxStack - slot.quantity);
+      slot.quantity += added;
+      remaining -= added;
+    }
+
+    for (let index = 0; index < this.slots.length && remaining > 0; index++) {
+      if (this.slots[index]) continue;
+      const added = Math.min(remaining, maxStack);
+      this.slots[index] = { itemId, quantity: added };
+      remaining -= added;
+    }
+    return remaining;
+  }
+
+  // Whether `add` would fit every one of the items
+  hasRoomFor(itemId: string, quantity: number): boolean {
+    const maxStack = this.items[itemId]?.maxStack;
+    if (!maxStack) return false;
+
+    let room = 0;
+    for (const slot of this.slots) {
+      if (!slot) {
+        room += maxStack;
+      } else if (slot.itemId === itemId) {
+        room += maxStack - slot.quantity;
+      }
+    }
+    return room >= quantity;
+  }
+
+  // Takes up to `quantity` items out of a slot, null if the slot is empty
+  removeFromSlot(index: number, quantity: number): InventorySlot | null {
+    const slot = this.slots[index];
+    if (!slot) return null;
+
+    const removed = Math.min(quantity, slot.quantity);
+    slot.quantity -= removed;
+    if (slot.quantity === 0) {
+      this.slots[index] = null;
+    }
+    return { itemId: slot.itemId, quantity: removed };
+  }
+
+  getSlot(index: number): InventorySlot | null {
+    const slot = this.slots[index];
+    return slot ? { ...slot } : null;
+  }
+
+  getSlots(): InventorySlots {
+    return this.slots.map((slot) => (slot ? { ...slot } : null));
+  }
+}
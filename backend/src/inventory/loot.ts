@@ -0,0 +1,16 @@
+import { InventorySlot } from "../../../shared/items";
+import { LootEntry } from "../../../shared/enemyTypes";
+
+// Rolls every entry of a loot table once, returning what dropped
+export function rollLoot(table: LootEntry[]): InventorySlot[] {
+  const drops: InventorySlot[] = [];
+  for (const entry of table) {
+    if (Math.random() >= entry.chance) continue;
+    const quantity =
+      entry.min + Math.floor(Math.random() * (entry.max - entry.min + 1));
+    if (quantity > 0) {
+      drops.push({ itemId: entry.item, quantity });
+    }
+  }
+  return drops;
+}
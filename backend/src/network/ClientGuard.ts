@@ -0,0 +1,67 @@
+import { TokenBucket } from "./TokenBucket";
+import { TICK_RATE } from "../../../shared/constants";
+import {
+  ClientToServerEvents,
+  isValidClientEvent,
+} from "../../../shared/protocol";
+
+interface RateLimit {
+  burst: number;
+  perSecond: number;
+}
+
+// How often a client may send each event. Input and state acks come once a
+// tick, with room to catch up on a few ticks after the client stalls.
+const RATE_LIMITS: { [E in keyof ClientToServerEvents]: RateLimit } = {
+  init: { burst: 2, perSecond: 0.1 },
+  playerInput: { burst: TICK_RATE, perSecond: TICK_RATE * 1.5 },
+  dropItem: { burst: 10, perSecond: 5 },
+  equipItem: { burst: 10, perSecond: 5 },
+  unequipItem: { burst: 10, perSecond: 5 },
+  allocateStat: { burst: 10, perSecond: 5 },
+  gameStateAck: { burst: TICK_RATE, perSecond: TICK_RATE * 1.5 },
+  requestFullState: { burst: 5, perSecond: 1 },
+  chatMessage: { burst: 5, perSecond: 1 },
+};
+
+// Rejected events a client may send in a row before it is disconnected, and
+// how many of them are forgiven per second of good behaviour
+const MAX_VIOLATIONS = 10;
+const VIOLATIONS_FORGIVEN_PER_SECOND = 0.2;
+
+/**
+ * Stands between one client's socket and the event handlers. Events that are
+ * malformed or sent faster than their rate limit are turned away, and the
+ * client is judged by how often it does that.
+ */
+export class ClientGuard {
+  private buckets: Map<keyof ClientToServerEvents, TokenBucket> = new Map();
+  private violations = new TokenBucket(
+    MAX_VIOLATIONS,
+    VIOLATIONS_FORGIVEN_PER_SECOND
+  );
+
+  // Why the event has to be dropped, or null if it can go through
+  check(event: unknown, args: unknown[], now = Date.now()): string | null {
+    if (!isValidClientEvent(event, args)) {
+      return `malformed "${String(event)}" event`;
+    }
+
+    let bucket = this.buckets.get(event);
+    if (!bucket) {
+      const { burst, perSecond } = RATE_LIMITS[event];
+      bucket = new TokenBucket(burst, perSecond, now);
+      this.buckets.set(event, bucket);
+    }
+    if (!bucket.take(now)) {
+      return `"${event}" sent too often`;
+    }
+    return null;
+  }
+
+  // Counts a rejected event. True once the client has had so many rejected
+  // that it should be disconnected.
+  recordViolation(now = Date.now()): boolean {
+    return !this.violations.take(now);
+  }
+}
@@ -0,0 +1,59 @@
+import { diffSnapshots, Snapshot, StateUpdate } from "../../../shared/delta";
+
+// Snapshots older than this can't be used as a baseline any more; a client
+// that hasn't acknowledged anything for that long gets a full state
+const HISTORY_SIZE = 40; // 2 seconds at 20 ticks per second
+
+/**
+ * Per-client bookkeeping for delta-compressed game state. Remembers the
+ * snapshots sent to one client and which of them it acknowledged, and diffs
+ * new snapshots against the newest acknowledged one.
+ */
+export class ClientStateTracker {
+  private sent = new Map<number, Snapshot>();
+  private ackedTick: number | null = null;
+
+  buildUpdate(
+    tick: number,
+    timestamp: number,
+    snapshot: Snapshot
+  ): StateUpdate {
+    const baseline =
+      this.ackedTick !== null ? this.sent.get(this.ackedTick) : undefined;
+    const baseTick = baseline ? this.ackedTick : null;
+
+    this.sent.set(tick, snapshot);
+    this.prune(tick);
+
+    return {
+      tick,
+      timestamp,
+      baseTick,
+      changes: diffSnapshots(baseline, snapshot),
+    };
+  }
+
+  acknowledge(tick: number) {
+    // Ignore acks for snapshots we never sent or have already moved past
+    if (!this.sent.has(tick)) return;
+    if (this.ackedTick !== null && tick <= this.ackedTick) return;
+    this.ackedTick = tick;
+  }
+
+  // The client lost track of its baseline; the next update is a full state
+  reset() {
+    this.ackedTick = null;
+    this.sent.clear();
+  }
+
+  private prune(currentTick: number) {
+    for (const tick of this.sent.keys()) {
+      if (
+        tick <= currentTick - HISTORY_SIZE ||
+        (this.ackedTick !== null && tick < this.ackedTick)
+      ) {
+        this.sent.delete(tick);
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { SpatialHash } from "../spatial/SpatialHash";
+
+// Entities closer than this on both axes come into a player's view. It is
+// a little larger than what the zoomed-in camera shows.
+const VIEW_DISTANCE = 400;
+// ...and leave it again once they are this much further away, so entities
+// on the edge don't flicker in and out
+const VIEW_HYSTERESIS = 50;
+
+type Position = { x: number; y: number };
+
+// Entity ids per collection, e.g. { players: [...], enemies: [...] }
+export type EntityIds = { [collection: string]: string[] };
+
+export interface ViewUpdate {
+  visible: EntityIds;
+  entered: EntityIds;
+  left: EntityIds;
+}
+
+// A spatial index of one kind of entity and how to get an entity's id
+export interface InterestSource<T extends { position: Position }> {
+  index: SpatialHash<T>;
+  idOf(entity: T): string;
+}
+
+/**
+ * Works out which entities each player can see, so the server only sends
+ * clients what is near them. Keeps every viewer's previous visible set to
+ * report what entered and left its view. `Entities` is the type of entity
+ * in each collection, e.g. { players: Player, enemies: Enemy }.
+ */
+export class InterestManager<
+  Entities extends { [collection: string]: { position: Position } },
+> {
+  private views = new Map<string, Map<string, Set<string>>>();
+
+  constructor(
+    private sources: {
+      [C in keyof Entities]: InterestSource<Entities[C]>;
+    }
+  ) {}
+
+  updateView(viewerKey: string, position: Position): ViewUpdate {
+    const previous =
+      this.views.get(viewerKey) ?? new Map<string, Set<string>>();
+    const current = new Map<string, Set<string>>();
+    const range = VIEW_DISTANCE + VIEW_HYSTERESIS;
+
+    for (const collection in this.sources) {
+      const source = this.sources[collection];
+      const visibleIds = new Set<string>();
+
+      for (const entity of source.index.queryRect(
+        position.x - range,
+        position.y - range,
+        position.x + range,
+        position.y + range
+      )) {
+        const id = source.idOf(entity);
+        const distance = Math.max(
+          Math.abs(entity.position.x - position.x),
+          Math.abs(entity.position.y - position.y)
+        );
+        const wasVisible = previous.get(collection)?.has(id);
+        if (distance <= VIEW_DISTANCE || wasVisible) {
+          visibleIds.add(id);
+        }
+      }
+
+      current.set(collection, visibleIds);
+    }
+
+    this.views.set(viewerKey, current);
+    return {
+      visible: toEntityIds(current, () => true),
+      entered: toEntityIds(
+        current,
+        (collection, id) => !previous.get(collection)?.has(id)
+      ),
+      left: toEntityIds(
+        previous,
+        (collection, id) => !current.get(collection)?.has(id)
+      ),
+    };
+  }
+
+  removeViewer(viewerKey: string) {
+    this.views.delete(viewerKey);
+  }
+}
+
+function toEntityIds(
+  sets: Map<string, Set<string>>,
+  include: (collection: string, id: string) => boolean
+): EntityIds {
+  const result: EntityIds = {};
+  for (const [collection, ids] of sets) {
+    const matching = [...ids].filter((id) => include(collection, id));
+    if (matching.length > 0) {
+      result[collection] = matching;
+    }
+  }
+  return result;
+}
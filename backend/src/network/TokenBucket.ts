@@ -0,0 +1,31 @@
+/**
+ * A rate limit that allows bursts: holds up to `capacity` tokens, refilled
+ * at `refillRate` tokens per second, and every action spends one.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private capacity: number,
+    private refillRate: number,
+    now = Date.now()
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now;
+  }
+
+  // Spends a token if there is one. False means the action is over the limit.
+  take(now = Date.now()): boolean {
+    const elapsed = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.refillRate
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+}
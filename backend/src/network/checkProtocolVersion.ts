@@ -0,0 +1,18 @@
+import { Socket } from "socket.io";
+import { PROTOCOL_MISMATCH, PROTOCOL_VERSION } from "../../../shared/protocol";
+
+/**
+ * Socket.IO handshake middleware. Turns away clients built against another
+ * protocol version, e.g. a tab left open across a deploy, before they can
+ * send anything the server would misread. They are told why so they can ask
+ * the player to refresh.
+ */
+export function checkProtocolVersion(
+  socket: Socket,
+  next: (err?: Error) => void
+) {
+  if (socket.handshake.auth?.protocolVersion !== PROTOCOL_VERSION) {
+    return next(new Error(PROTOCOL_MISMATCH));
+  }
+  next();
+}
@@ -0,0 +1,245 @@
+import { MapLoader } from "../MapLoader";
+import { Position } from "../../../shared/movement";
+import { PriorityQueue } from "./PriorityQueue";
+
+// Nodes expanded per tick across all searches. A search that runs out
+// carries on next tick, so many enemies pathing at once can't stall the loop.
+const EXPANSIONS_PER_TICK = 1500;
+// Spacing of the samples taken along a segment when smoothing, in tiles
+const LINE_OF_SIGHT_STEP = 0.25;
+
+const NEIGHBOURS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+// Called with the waypoints to the goal, nearest first, or null if the goal
+// can't be reached
+export type PathCallback = (path: Position[] | null) => void;
+
+interface Search {
+  ownerId: string;
+  start: Position;
+  goal: Position;
+  goalTile: number;
+  open: PriorityQueue<number>;
+  costs: Map<number, number>;
+  cameFrom: Map<number, number>;
+  closed: Set<number>;
+  callback: PathCallback;
+}
+
+/**
+ * A* over the map's tile grid. Requests are queued and worked through in
+ * `update` once per tick; each owner has at most one search in flight.
+ */
+export class Pathfinder {
+  private width: number;
+  private height: number;
+  private tileWidth: number;
+  private tileHeight: number;
+  // Built once from the map: 1 for walkable tiles, 0 for blocked ones
+  private walkable: Uint8Array;
+  private searches: Search[] = [];
+
+  constructor(mapLoader: MapLoader) {
+    this.width = mapLoader.widthInTiles;
+    this.height = mapLoader.heightInTiles;
+    this.tileWidth = mapLoader.tileWidth;
+    this.tileHeight = mapLoader.tileHeight;
+
+    this.walkable = new Uint8Array(this.width * this.height);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        this.walkable[y * this.width + x] = mapLoader.isTileBlocked(x, y)
+          ? 0
+          : 1;
+      }
+    }
+  }
+
+  // Replaces any search the owner already has queued
+  requestPath(
+    ownerId: string,
+    start: Position,
+    goal: Position,
+    callback: PathCallback
+  ) {
+    this.cancel(ownerId);
+
+    const startTile = this.tileAt(start);
+    const goalTile = this.tileAt(goal);
+    if (startTile === null || goalTile === null || !this.walkable[goalTile]) {
+      callback(null);
+      return;
+    }
+
+    const open = new PriorityQueue<number>();
+    open.push(startTile, this.heuristic(startTile, goalTile));
+    this.searches.push({
+      ownerId,
+      start: { ...start },
+      goal: { ...goal },
+      goalTile,
+      open,
+      costs: new Map([[startTile, 0]]),
+      cameFrom: new Map(),
+      closed: new Set(),
+      callback,
+    });
+  }
+
+  cancel(ownerId: string) {
+    this.searches = this.searches.filter(
+      (search) => search.ownerId !== ownerId
+    );
+  }
+
+  // Runs queued searches, oldest first, until this tick's budget is spent
+  update() {
+    let budget = EXPANSIONS_PER_TICK;
+    while (budget > 0 && this.searches.length > 0) {
+      const search = this.searches[0];
+      const { expansions, path } = this.expand(search, budget);
+      budget -= expansions;
+
+      if (path !== undefined) {
+        this.searches.shift();
+        search.callback(path);
+      }
+    }
+  }
+
+  /**
+   * Expands up to `maxExpansions` nodes. `path` stays undefined while the
+   * search is unfinished.
+   */
+  private expand(
+    search: Search,
+    maxExpansions: number
+  ): { expansions: number; path?: Position[] | null } {
+    let expansions = 0;
+    while (expansions < maxExpansions) {
+      const current = search.open.pop();
+      if (current === undefined) {
+        return { expansions, path: null }; // Goal unreachable
+      }
+      if (search.closed.has(current)) continue;
+
+      if (current === search.goalTile) {
+        return { expansions, path: this.buildPath(search) };
+      }
+      search.closed.add(current);
+      expansions++;
+
+      const x = current % this.width;
+      const y = Math.floor(current / this.width);
+      const currentCost = search.costs.get(current)!;
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!this.isWalkable(nx, ny)) continue;
+        // No cutting across the corner of a blocked tile
+        if (dx !== 0 && dy !== 0) {
+          if (!this.isWalkable(x + dx, y) || !this.isWalkable(x, y + dy)) {
+            continue;
+          }
+        }
+
+        const neighbour = ny * this.width + nx;
+        const cost = currentCost + (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1);
+        if (cost < (search.costs.get(neighbour) ?? Infinity)) {
+          search.costs.set(neighbour, cost);
+          search.cameFrom.set(neighbour, current);
+          search.open.push(
+            neighbour,
+            cost + this.heuristic(neighbour, search.goalTile)
+          );
+        }
+      }
+    }
+    return { expansions };
+  }
+
+  private buildPath(search: Search): Position[] {
+    const tiles: number[] = [];
+    let tile: number | undefined = search.goalTile;
+    while (tile !== undefined) {
+      tiles.unshift(tile);
+      tile = search.cameFrom.get(tile);
+    }
+
+    // Walk from the exact start to the exact goal through tile centres
+    const points = [
+      search.start,
+      ...tiles.slice(1, -1).map((tile) => this.tileCenter(tile)),
+      search.goal,
+    ];
+    return this.smooth(points).slice(1);
+  }
+
+  // Drops every waypoint that can be skipped by walking in a straight line
+  private smooth(points: Position[]): Position[] {
+    if (points.length <= 2) return points;
+
+    const smoothed = [points[0]];
+    let anchor = points[0];
+    for (let i = 2; i < points.length; i++) {
+      if (!this.hasLineOfSight(anchor, points[i])) {
+        anchor = points[i - 1];
+        smoothed.push(anchor);
+      }
+    }
+    smoothed.push(points[points.length - 1]);
+    return smoothed;
+  }
+
+  private hasLineOfSight(from: Position, to: Position): boolean {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const step = Math.min(this.tileWidth, this.tileHeight) * LINE_OF_SIGHT_STEP;
+    const steps = Math.ceil(Math.hypot(dx, dy) / step);
+    for (let i = 1; i <= steps; i++) {
+      const tile = this.tileAt({
+        x: from.x + (dx * i) / steps,
+        y: from.y + (dy * i) / steps,
+      });
+      if (tile === null || !this.walkable[tile]) return false;
+    }
+    return true;
+  }
+
+  private isWalkable(x: number, y: number): boolean {
+    if (x < 0 || x >= this.width || y < 0 || y >= this.height) return false;
+    return this.walkable[y * this.width + x] === 1;
+  }
+
+  private tileAt(position: Position): number | null {
+    const x = Math.floor(position.x / this.tileWidth);
+    const y = Math.floor(position.y / this.tileHeight);
+    if (x < 0 || x >= this.width || y < 0 || y >= this.height) return null;
+    return y * this.width + x;
+  }
+
+  private tileCenter(tile: number): Position {
+    return {
+      x: ((tile % this.width) + 0.5) * this.tileWidth,
+      y: (Math.floor(tile / this.width) + 0.5) * this.tileHeight,
+    };
+  }
+
+  // Octile distance, which never overestimates with diagonal moves
+  private heuristic(from: number, to: number): number {
+    const dx = Math.abs((from % this.width) - (to % this.width));
+    const dy = Math.abs(
+      Math.floor(from / this.width) - Math.floor(to / this.width)
+    );
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  }
+}
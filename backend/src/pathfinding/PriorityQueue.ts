@@ -0,0 +1,69 @@
+/**
+ * Binary min-heap: `pop` returns the item with the lowest priority.
+ */
+export class PriorityQueue<T> {
+  private items: T[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T, priority: number) {
+    this.items.push(item);
+    this.priorities.push(priority);
+    this.siftUp(this.items.length - 1);
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  private siftUp(index: number) {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number) {
+    const length = this.items.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.priorities[left] < this.priorities[smallest]) {
+        smallest = left;
+      }
+      if (
+        right < length &&
+        this.priorities[right] < this.priorities[smallest]
+      ) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(a: number, b: number) {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [
+      this.priorities[b],
+      this.priorities[a],
+    ];
+  }
+}
@@ -0,0 +1,54 @@
+import { PlayerRecord, PlayerSaveData } from "../entities/Player";
+import { PlayerRepository, PlayerUpdate } from "./PlayerRepository";
+
+/**
+ * Keeps players in process memory. Records are copied on the way in and out
+ * so callers can't modify stored state by accident, like with a real database.
+ */
+export class InMemoryPlayerRepository implements PlayerRepository {
+  private players = new Map<string, PlayerRecord>();
+
+  async connect(): Promise<void> {
+    console.log("Using in-memory player storage");
+  }
+
+  async close(): Promise<void> {}
+
+  async findByPlayerId(playerId: string): Promise<PlayerRecord | null> {
+    const record = this.players.get(playerId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async findByUsername(username: string): Promise<PlayerRecord | null> {
+    for (const record of this.players.values()) {
+      if (record.credentials.username === username) {
+        return structuredClone(record);
+      }
+    }
+    return null;
+  }
+
+  async create(record: PlayerRecord): Promise<boolean> {
+    if (await this.findByUsername(record.credentials.username)) {
+      return false;
+    }
+    this.players.set(record.playerId, structuredClone(record));
+    return true;
+  }
+
+  async update(
+    playerId: string,
+    changes: Partial<PlayerSaveData>
+  ): Promise<void> {
+    const record = this.players.get(playerId);
+    if (record) {
+      Object.assign(record, structuredClone(changes));
+    }
+  }
+
+  async updateMany(updates: PlayerUpdate[]): Promise<void> {
+    for (const { playerId, changes } of updates) {
+      await this.update(playerId, changes);
+    }
+  }
+}
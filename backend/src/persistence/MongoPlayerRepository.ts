@@ -0,0 +1,91 @@
+import { Collection, MongoClient, MongoServerError, ObjectId } from "mongodb";
+import { PlayerRecord, PlayerSaveData } from "../entities/Player";
+import { PlayerRepository, PlayerUpdate } from "./PlayerRepository";
+
+interface PlayerDocument extends PlayerRecord {
+  _id: ObjectId;
+}
+
+// Mongo's error code for a unique index violation
+const DUPLICATE_KEY = 11000;
+
+export class MongoPlayerRepository implements PlayerRepository {
+  private client: MongoClient;
+  private collection: Collection<PlayerDocument> | null = null;
+
+  constructor(
+    url: string,
+    private dbName: string = "mmorpg"
+  ) {
+    this.client = new MongoClient(url);
+  }
+
+  private get players(): Collection<PlayerDocument> {
+    if (!this.collection) {
+      throw new Error("MongoPlayerRepository used before connect()");
+    }
+    return this.collection;
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+    this.collection = this.client
+      .db(this.dbName)
+      .collection<PlayerDocument>("players");
+    await this.collection.createIndex({ playerId: 1 }, { unique: true });
+    // Sparse, because players from before accounts existed have no credentials
+    await this.collection.createIndex(
+      { "credentials.username": 1 },
+      { unique: true, sparse: true }
+    );
+    console.log("Connected to MongoDB");
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+
+  async findByPlayerId(playerId: string): Promise<PlayerRecord | null> {
+    return this.players.findOne(
+      { playerId },
+      { projection: { _id: 0 } }
+    ) as Promise<PlayerRecord | null>;
+  }
+
+  async findByUsername(username: string): Promise<PlayerRecord | null> {
+    return this.players.findOne(
+      { "credentials.username": username },
+      { projection: { _id: 0 } }
+    ) as Promise<PlayerRecord | null>;
+  }
+
+  async create(record: PlayerRecord): Promise<boolean> {
+    try {
+      await this.players.insertOne({ _id: new ObjectId(), ...record });
+      return true;
+    } catch (err) {
+      if (err instanceof MongoServerError && err.code === DUPLICATE_KEY) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async update(
+    playerId: string,
+    changes: Partial<PlayerSaveData>
+  ): Promise<void> {
+    await this.players.updateOne({ playerId }, { $set: changes });
+  }
+
+  async updateMany(updates: PlayerUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+    await this.players.bulkWrite(
+      updates.map(({ playerId, changes }) => ({
+        updateOne: { filter: { playerId }, update: { $set: changes } },
+      })),
+      // One failed update shouldn't stop the others from being written
+      { ordered: false }
+    );
+  }
+}
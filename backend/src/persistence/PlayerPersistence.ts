@@ -0,0 +1,106 @@
+import { Player } from "../entities/Player";
+import { PlayerRepository } from "./PlayerRepository";
+
+// How often changed players are written back while they are online
+const CHECKPOINT_INTERVAL = 30 * 1000;
+
+/**
+ * Writes online players' state back to storage: every player whose state
+ * changed is saved in one batch per checkpoint, and a player is always saved
+ * when they leave. Keeps track of saves in flight so shutdown can wait for
+ * all of them.
+ */
+export class PlayerPersistence {
+  private timer: NodeJS.Timeout | null = null;
+  private pendingSaves = new Set<Promise<void>>();
+  // Every save in flight that includes the player, by playerId
+  private pendingPlayerSaves = new Map<string, Promise<void>>();
+
+  constructor(
+    private repository: PlayerRepository,
+    private getOnlinePlayers: () => Player[]
+  ) {}
+
+  start() {
+    this.timer = setInterval(() => this.checkpoint(), CHECKPOINT_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Saves every player that changed since their last save
+  checkpoint(): Promise<void> {
+    const dirtyPlayers = this.getOnlinePlayers().filter((player) =>
+      player.isDirty()
+    );
+    if (dirtyPlayers.length === 0) return Promise.resolve();
+
+    const updates = dirtyPlayers.map((player) => ({
+      playerId: player.playerId,
+      changes: player.takeSaveData(),
+    }));
+    const save = this.track(
+      this.repository.updateMany(updates).catch((err) => {
+        console.error("Checkpoint failed:", err);
+        // Try these players again on the next checkpoint
+        dirtyPlayers.forEach((player) => player.markDirty());
+      })
+    );
+    dirtyPlayers.forEach((player) => this.trackPlayer(player.playerId, save));
+    return save;
+  }
+
+  // Saves one player regardless of whether anything changed, e.g. on leave
+  save(player: Player): Promise<void> {
+    const save = this.track(
+      this.repository
+        .update(player.playerId, player.takeSaveData())
+        .catch((err) => {
+          console.error(`Failed to save player ${player.playerId}:`, err);
+        })
+    );
+    this.trackPlayer(player.playerId, save);
+    return save;
+  }
+
+  /**
+   * Waits for every save of the player that is still in flight, e.g. the one
+   * made when their previous session ended, so loading them afterwards reads
+   * their latest state.
+   */
+  async waitForSaves(playerId: string): Promise<void> {
+    await this.pendingPlayerSaves.get(playerId);
+  }
+
+  // Saves everyone still online and waits for every save in flight
+  async flush(): Promise<void> {
+    await Promise.all(
+      this.getOnlinePlayers().map((player) => this.save(player))
+    );
+    await Promise.all(this.pendingSaves);
+  }
+
+  private track(save: Promise<void>): Promise<void> {
+    this.pendingSaves.add(save);
+    save.finally(() => this.pendingSaves.delete(save));
+    return save;
+  }
+
+  // Saves never reject, their errors are logged where they are made
+  private trackPlayer(playerId: string, save: Promise<void>) {
+    const previous = this.pendingPlayerSaves.get(playerId);
+    const saves = previous
+      ? Promise.all([previous, save]).then(() => undefined)
+      : save;
+    this.pendingPlayerSaves.set(playerId, saves);
+    saves.finally(() => {
+      if (this.pendingPlayerSaves.get(playerId) === saves) {
+        this.pendingPlayerSaves.delete(playerId);
+      }
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { PlayerRecord, PlayerSaveData } from "../entities/Player";
+import { InMemoryPlayerRepository } from "./InMemoryPlayerRepository";
+import { MongoPlayerRepository } from "./MongoPlayerRepository";
+
+/**
+ * Storage for player accounts and their saved state. The game server only
+ * talks to this interface, so it can run against Mongo or entirely in memory.
+ */
+export interface PlayerRepository {
+  // Resolves once the storage is ready to use
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  findByPlayerId(playerId: string): Promise<PlayerRecord | null>;
+  findByUsername(username: string): Promise<PlayerRecord | null>;
+  // Resolves to false, without storing anything, if the username is taken
+  create(record: PlayerRecord): Promise<boolean>;
+  update(playerId: string, changes: Partial<PlayerSaveData>): Promise<void>;
+  // Several updates in one round trip, for periodic checkpoints
+  updateMany(updates: PlayerUpdate[]): Promise<void>;
+}
+
+export interface PlayerUpdate {
+  playerId: string;
+  changes: Partial<PlayerSaveData>;
+}
+
+/**
+ * Picks the implementation from the PLAYER_STORAGE environment variable:
+ * "mongo" (the default, using MONGO_URL) or "memory", which needs no
+ * database but forgets everything on restart.
+ */
+export function createPlayerRepository(): PlayerRepository {
+  const storage = process.env.PLAYER_STORAGE || "mongo";
+  switch (storage) {
+    case "memory":
+      return new InMemoryPlayerRepository();
+    case "mongo":
+      return new MongoPlayerRepository(
+        process.env.MONGO_URL || "mongodb://localhost:27017"
+      );
+    default:
+      throw new Error(`Unknown PLAYER_STORAGE "${storage}"`);
+  }
+}
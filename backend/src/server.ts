@@ -1,280 +1,523 @@
 import express from "express";
 import http from "http";
 import { Server as SocketIOServer, Socket } from "socket.io";
-import { MongoClient, Db } from "mongodb";
 import path from "path";
-import { Player, PlayerData, PlayerDocument } from "./entities/Player";
-import { Enemy, EnemyData } from "./entities/Enemy";
-import { MapLoader } from "./MapLoader"; // Import MapLoader
+import { Player, PlayerData } from "./entities/Player";
+import { Inventory } from "./inventory/Inventory";
+import { Equipment } from "./inventory/Equipment";
+import { MapLoader } from "./MapLoader";
+import { createAuthRouter } from "./auth/authRoutes";
+import { socketAuth } from "./auth/socketAuth";
+import { checkProtocolVersion } from "./network/checkProtocolVersion";
+import { ClientStateTracker } from "./network/ClientStateTracker";
+import { ClientGuard } from "./network/ClientGuard";
+import { createPlayerRepository } from "./persistence/PlayerRepository";
+import { PlayerPersistence } from "./persistence/PlayerPersistence";
+import { loadEnemyTypes, loadItemDefinitions } from "./definitions";
+import { getClientView } from "./zones/Zone";
+import { World } from "./world/World";
+import { TICK_INTERVAL } from "../../shared/constants";
+import { PlayerInput } from "../../shared/movement";
+import { StateUpdate } from "../../shared/delta";
+import {
+  ClientToServerEvents,
+  EnteredView,
+  GameState,
+  isBinaryMessage,
+  isPlayerInput,
+  LeftView,
+  ServerToClientEvents,
+} from "../../shared/protocol";
+import { DEFAULT_ZONE, ZONES } from "../../shared/zones";
+import {
+  decodePlayerInput,
+  negotiateWireFormat,
+  StateEncoder,
+} from "../../shared/wire";
+import { createEmptyAllocation } from "../../shared/stats";
+
+// No client event comes anywhere near this; anything bigger is cut off
+// before it is even parsed
+const MAX_MESSAGE_SIZE = 16 * 1024;
 
 const app = express();
 const server = http.createServer(app);
-const io = new SocketIOServer(server, {
-  cors: {
-    origin: "*",
-    methods: ["GET", "POST"],
-    allowedHeaders: ["my-custom-header"],
-    credentials: true,
-  },
-});
-
-const mongoUrl = process.env.MONGO_URL || "mongodb://localhost:27017";
-let db: Db;
+const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(
+  server,
+  {
+    cors: {
+      origin: "*",
+      methods: ["GET", "POST"],
+      allowedHeaders: ["my-custom-header"],
+      credentials: true,
+    },
+    maxHttpBufferSize: MAX_MESSAGE_SIZE,
+  }
+);
 
-MongoClient.connect(mongoUrl)
-  .then((client) => {
-    db = client.db("mmorpg");
-    console.log("Connected to MongoDB");
-    spawnEnemies(); // Ensure enemies are spawned after DB connection
-  })
-  .catch((err) => console.error(err));
+// Mongo or in-memory, depending on PLAYER_STORAGE
+const playerRepository = createPlayerRepository();
 
-// Serve static files from the Vite build directory
-app.use(express.static(path.join(__dirname, "../../frontend/dist")));
+// Saves online players periodically and when they leave
+const playerPersistence = new PlayerPersistence(playerRepository, () =>
+  Object.values(world.players)
+);
 
-// Game constants
-export const TICK_RATE = 20; // Server updates 20 times per second
-const TICK_INTERVAL = 1000 / TICK_RATE;
-const MAX_ENEMIES = 5;
+// Account registration and login
+app.use("/api", createAuthRouter(playerRepository));
 
-// Game state
-export const players: { [key: string]: Player } = {};
-const enemies: { [key: string]: Enemy } = {};
+// Serve static files from the Vite build directory
+app.use(express.static(path.resolve("../frontend/dist")));
 
 // Mappings between socket IDs and player IDs
 const socketIdToPlayerId: { [key: string]: string } = {};
 const playerIdToSocketId: { [key: string]: string } = {};
 
-// Spawn initial enemies
-function spawnEnemies() {
-  const aliveEnemies = Object.values(enemies).filter((enemy) => enemy.alive);
-  const enemiesToSpawn = MAX_ENEMIES - aliveEnemies.length;
-
-  for (let i = 0; i < enemiesToSpawn; i++) {
-    const enemy = new Enemy();
-    enemies[enemy.id] = enemy;
+// Delta compression state for every initialized socket
+const stateTrackers: { [socketId: string]: ClientStateTracker } = {};
+// Encoders for sockets that get game state in binary; the rest get JSON
+const stateEncoders: { [socketId: string]: StateEncoder } = {};
+
+// Enemy archetypes and items, shared with the frontend
+const enemyTypes = loadEnemyTypes("../shared/enemies");
+const itemDefinitions = loadItemDefinitions("../shared/items");
+for (const enemyType of Object.values(enemyTypes)) {
+  for (const entry of enemyType.loot) {
+    if (!itemDefinitions[entry.item]) {
+      throw new Error(
+        `Enemy type "${enemyType.type}" drops unknown item "${entry.item}"`
+      );
+    }
   }
 }
 
-// Socket.io connection
-io.on("connection", (socket: Socket) => {
-  console.log("User connected:", socket.id);
-
-  // Initialize player
-  socket.on("init", async (data: { playerId: string }) => {
-    const { playerId } = data;
+// Every map, simulated side by side. Players hear about what happens to
+// them over their socket.
+const maps: { [zoneId: string]: MapLoader } = {};
+for (const [zoneId, definition] of Object.entries(ZONES)) {
+  maps[zoneId] = new MapLoader(`../assets/maps/${definition.map}.tmx`);
+}
+const world = new World(maps, enemyTypes, {
+  playerDied(player, respawnIn) {
+    emitToPlayer(player, "playerDied", { respawnIn });
+  },
+  levelUp(player, levelsGained) {
+    emitToPlayer(player, "levelUp", {
+      level: player.level,
+      levelsGained,
+      statPoints: player.statPoints,
+      stats: player.stats,
+    });
+    // Also tells the client how its stat points are spent
+    sendStats(player);
+  },
+  inventoryChanged(player) {
+    sendInventory(player);
+  },
+  // The client starts over with the new zone's map and a full state
+  zoneChanged(player, from, to) {
+    const socketId = playerIdToSocketId[player.playerId];
+    const socket = socketId && io.sockets.sockets.get(socketId);
+    if (!socket) return;
+
+    from.interestManager.removeViewer(socket.id);
+    socket.leave(from.room);
+    socket.join(to.room);
+    stateTrackers[socket.id]?.reset();
+    socket.emit("zoneChanged", {
+      zone: to.id,
+      position: { ...player.position },
+    });
+  },
+});
 
-    socketIdToPlayerId[socket.id] = playerId;
-    playerIdToSocketId[playerId] = socket.id;
+// Only up to date clients with a valid session token get past the handshake
+io.use(checkProtocolVersion);
+io.use(socketAuth);
 
-    let playerDocument: PlayerDocument | null = await db
-      .collection<PlayerDocument>("players")
-      .findOne({ playerId });
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
 
-    let playerData: PlayerData;
+// Socket.io connection
+io.on("connection", (socket: GameSocket) => {
+  console.log("User connected:", socket.id);
+  // Malformed events and events over their rate limit never reach a
+  // handler. Clients that keep sending them are cut off.
+  const guard = new ClientGuard();
+  const reject = (problem: string) => {
+    // The rest of a batch is still checked after a disconnect
+    if (!socket.connected) return;
+
+    console.warn(
+      `Rejected message from ${socket.id} (player ${socket.data.playerId}): ${problem}`
+    );
+    if (guard.recordViolation()) {
+      console.warn(`Disconnecting ${socket.id}: too many rejected messages`);
+      socket.disconnect(true);
+    }
+  };
+  socket.use(([event, ...args], next) => {
+    const problem = guard.check(event, args);
+    next(problem === null ? undefined : new Error(problem));
+  });
+  socket.on("error", (err) => reject(err.message));
+
+  // The client says which formats it can read in the handshake
+  const wireFormat = negotiateWireFormat(socket.handshake.auth?.wireFormats);
+
+  // Initialize player, once per connection
+  let initStarted = false;
+  socket.on("init", async () => {
+    if (initStarted) return;
+    initStarted = true;
+
+    // Resolved from the session token by socketAuth, never from the client
+    const playerId: string = socket.data.playerId;
+
+    try {
+      // Only one session per account: drop the older connection, which saves
+      // its player, and let that save land before loading. Otherwise this
+      // session would start from stale progress and overwrite the newer
+      // save. Claiming the account straight away means a session that comes
+      // in while this one is loading drops this one in turn.
+      const previousSocketId = playerIdToSocketId[playerId];
+      if (previousSocketId && previousSocketId !== socket.id) {
+        io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+      }
+      socketIdToPlayerId[socket.id] = playerId;
+      playerIdToSocketId[playerId] = socket.id;
+      await playerPersistence.waitForSaves(playerId);
+
+      const playerRecord = await playerRepository.findByPlayerId(playerId);
+      // Gone while loading; nobody is left to put into the world
+      if (!socket.connected) return;
+
+      if (!playerRecord) {
+        // The account was removed after the token was issued
+        socket.emit("authError", "Account not found");
+        socket.disconnect(true);
+        return;
+      }
 
-    if (!playerDocument) {
-      const newPlayerData: PlayerData = {
-        playerId,
-        position: { x: 300, y: 200 },
-        level: 1,
-        exp: 0,
-        health: 100,
+      // Update socketId in the stored player
+      await playerRepository.update(playerId, { socketId: socket.id });
+      if (!socket.connected) return;
+
+      // Extract PlayerData from the stored player, leaving credentials
+      // behind. Players saved before inventories or stat points existed
+      // start with nothing.
+      const {
+        credentials,
+        zone: savedZone = DEFAULT_ZONE,
+        statPoints = 0,
+        allocatedStats = createEmptyAllocation(),
+        inventory = [],
+        equipment = {},
+        ...storedData
+      } = playerRecord;
+      const playerData: PlayerData = {
+        ...storedData,
+        zone: savedZone,
         socketId: socket.id,
-        direction: "right",
-        action: "idle",
       };
-      await db.collection<PlayerData>("players").insertOne(newPlayerData);
-      playerData = newPlayerData;
-    } else {
-      // Update socketId in the existing document
-      await db
-        .collection<PlayerDocument>("players")
-        .updateOne({ playerId }, { $set: { socketId: socket.id } });
-      // Extract PlayerData from PlayerDocument
-      const { _id, ...dataWithoutId } = playerDocument;
-      playerData = dataWithoutId;
+
+      const player = new Player(
+        playerData,
+        { statPoints, allocatedStats },
+        new Inventory(itemDefinitions, inventory),
+        new Equipment(itemDefinitions, equipment)
+      );
+      const zone = world.addPlayer(player);
+      socket.join(zone.room);
+
+      // A fresh tracker has no baseline, so the first gameState is a full one
+      stateTrackers[socket.id] = new ClientStateTracker();
+      if (wireFormat === "binary") {
+        // New ids for a new session, which the client starts over with too
+        stateEncoders[socket.id] = new StateEncoder();
+      }
+
+      socket.emit("init", { wireFormat, playerData: player.getState() });
+      sendInventory(player);
+      sendEquipment(player);
+      sendStats(player);
+    } catch (err) {
+      console.error(`Failed to load player ${playerId}:`, err);
+      socket.emit(
+        "authError",
+        "Could not load your character, please try again"
+      );
+      socket.disconnect(true);
     }
+  });
 
-    const player = new Player(playerData);
-    players[playerId] = player;
-
-    // Prepare alive enemies data to send to the client
-    const aliveEnemies: { [key: string]: EnemyData } = {};
-    for (const enemy of Object.values(enemies)) {
-      if (enemy.alive) {
-        aliveEnemies[enemy.id] = {
-          id: enemy.id,
-          position: enemy.position,
-          health: enemy.health,
-          direction: enemy.direction,
-          action: enemy.action,
-        };
+  // Collect player input without processing immediately
+  socket.on("playerInput", (data) => {
+    const playerId = socketIdToPlayerId[socket.id];
+    if (playerId) {
+      let input: PlayerInput;
+      try {
+        input = isBinaryMessage(data) ? decodePlayerInput(data) : data;
+      } catch {
+        reject("garbled binary playerInput");
+        return;
+      }
+      // The binary format can spell out any direction or action, so decoded
+      // input gets the same checks as JSON input
+      if (!isPlayerInput(input)) {
+        reject("malformed binary playerInput");
+        return;
       }
+
+      // Render times are on the server's clock, as estimated by the client
+      const { renderTime } = input;
+      const viewDelay = renderTime === undefined ? 0 : Date.now() - renderTime;
+      world.queueInput(playerId, input, viewDelay);
     }
+  });
 
-    socket.emit("init", { playerData, players, enemies: aliveEnemies });
+  // Drop items from an inventory slot on the ground where the player stands
+  socket.on("dropItem", ({ slot, quantity = Infinity }) => {
+    const playerId = socketIdToPlayerId[socket.id];
+    if (!playerId || quantity < 1) return;
 
-    // Notify other clients about the new player
-    socket.broadcast.emit("playerJoined", playerData);
+    world.dropItem(playerId, slot, quantity);
   });
 
-  // Collect player input without processing immediately
-  socket.on(
-    "playerInput",
-    (
-      input: Partial<{
-        left: boolean;
-        right: boolean;
-        up: boolean;
-        down: boolean;
-        direction: string;
-        action: string;
-      }>
-    ) => {
-      const playerId = socketIdToPlayerId[socket.id];
-      if (playerId && players[playerId]) {
-        const player = players[playerId];
-        player.setInput(input);
-      }
+  // Wear the item in an inventory slot
+  socket.on("equipItem", (data) => {
+    const player = world.players[socketIdToPlayerId[socket.id]];
+    if (!player) return;
+
+    if (player.equip(data.slot)) {
+      sendInventory(player);
+      sendEquipment(player);
+      sendStats(player);
     }
-  );
+  });
+
+  // Take off the item in an equipment slot
+  socket.on("unequipItem", (data) => {
+    const player = world.players[socketIdToPlayerId[socket.id]];
+    if (!player) return;
+
+    if (player.unequip(data.slot)) {
+      sendInventory(player);
+      sendEquipment(player);
+      sendStats(player);
+    }
+  });
+
+  // Spend an unspent stat point
+  socket.on("allocateStat", (data) => {
+    const player = world.players[socketIdToPlayerId[socket.id]];
+    if (!player) return;
+
+    if (player.allocateStat(data.stat)) {
+      sendStats(player);
+    }
+  });
+
+  // The client has applied this snapshot and can use it as a baseline
+  socket.on("gameStateAck", (tick) => {
+    stateTrackers[socket.id]?.acknowledge(tick);
+  });
+
+  // The client lost its baseline, start over with a full state
+  socket.on("requestFullState", () => {
+    stateTrackers[socket.id]?.reset();
+  });
 
   socket.on("disconnect", () => {
     console.log("User disconnected:", socket.id);
+    delete stateTrackers[socket.id];
+    delete stateEncoders[socket.id];
 
+    // Other clients see the player leave their view on the next tick
     const playerId = socketIdToPlayerId[socket.id];
     if (playerId) {
-      delete players[playerId];
+      // Only this connection's player; it may have dropped out before its
+      // player was ever added
+      const player = world.players[playerId];
+      if (player && player.socketId === socket.id) {
+        playerPersistence.save(player);
+        world.zoneOf(player).interestManager.removeViewer(socket.id);
+        world.removePlayer(playerId);
+      }
       delete socketIdToPlayerId[socket.id];
-      delete playerIdToSocketId[playerId];
-      socket.broadcast.emit("playerLeft", playerId);
+      if (playerIdToSocketId[playerId] === socket.id) {
+        delete playerIdToSocketId[playerId];
+      }
     }
   });
 
-  socket.on("chatMessage", (msg: string) => {
+  socket.on("chatMessage", (msg) => {
     const playerId = socketIdToPlayerId[socket.id];
+    if (!playerId || msg.trim() === "") return;
+
     io.emit("chatMessage", { id: playerId, message: msg });
   });
 });
 
-const mapLoader = new MapLoader("artifacts/maps/level.json"); // Adjust the path to your map file
-
-let lastUpdateTime = Date.now();
+let lastUpdateTime: number;
+let gameLoopTimer: NodeJS.Timeout;
 
+// Timers drift, so the world is told how much time really passed and runs
+// however many fixed ticks that makes
 function gameLoop() {
   const now = Date.now();
-  const deltaTime = now - lastUpdateTime;
+  const ticks = world.advance(now - lastUpdateTime);
   lastUpdateTime = now;
+  if (ticks > 0) {
+    broadcastGameState();
+  }
+}
 
-  updateGameState(deltaTime);
-
-  const state = getGameState();
-  io.emit("gameState", state);
-
-  spawnEnemies();
+function emitToPlayer<E extends keyof ServerToClientEvents>(
+  player: Player,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+) {
+  const socketId = playerIdToSocketId[player.playerId];
+  if (socketId) {
+    io.to(socketId).emit(event, ...args);
+  }
 }
 
-setInterval(gameLoop, TICK_INTERVAL);
+// What the player wears, for its owner only
+function sendEquipment(player: Player) {
+  emitToPlayer(player, "equipment", player.equipment.getEquipped());
+}
 
-function updateGameState(deltaTime: number) {
-  for (const playerId in players) {
-    const player = players[playerId];
-    if (player.isAttacking()) {
-      handleAttack(playerId);
-    }
-    player.processInput(mapLoader); // Pass mapLoader for collision detection
-  }
+// Effective stats and how stat points were spent, for the owner only
+function sendStats(player: Player) {
+  emitToPlayer(player, "stats", {
+    stats: player.stats,
+    statPoints: player.statPoints,
+    allocatedStats: player.allocatedStats,
+  });
+}
 
-  // Update Enemies Behavior
-  for (const enemy of Object.values(enemies)) {
-    if (enemy.alive) {
-      enemy.findTarget(players);
-      enemy.performAction(players);
-      enemy.move(deltaTime);
-    }
-  }
+// Inventories are private, so only their owner is sent them
+function sendInventory(player: Player) {
+  emitToPlayer(player, "inventory", player.inventory.getSlots());
 }
 
-function handleAttack(playerId: string) {
-  const player = players[playerId];
-  if (!player) return;
+// Sends every client what came into and went out of its view, then the
+// changes since the last state it acknowledged
+function broadcastGameState() {
+  const timestamp = Date.now();
 
-  let closestEnemy: Enemy | null = null;
-  let minDistance = Infinity;
+  for (const zone of Object.values(world.zones)) {
+    const socketIds = io.sockets.adapter.rooms.get(zone.room);
+    if (!socketIds || socketIds.size === 0) continue;
+    const state = zone.getGameState();
 
-  for (const enemy of Object.values(enemies)) {
-    if (!enemy.alive) continue;
-    const distance = getDistance(player.position, enemy.position);
-    if (distance < minDistance && distance < 50) {
-      minDistance = distance;
-      closestEnemy = enemy;
-    }
-  }
+    for (const socketId of socketIds) {
+      const playerId = socketIdToPlayerId[socketId];
+      const player = zone.players[playerId];
+      if (!player || !stateTrackers[socketId]) continue;
 
-  if (closestEnemy) {
-    const isDead = closestEnemy.takeDamage(10);
-    if (isDead) {
-      const leveledUp = player.gainExp(50);
-      if (leveledUp) {
-        const socketId = playerIdToSocketId[playerId];
-        if (socketId) {
-          io.to(socketId).emit("levelUp", player.level);
+      const { visible, entered, left } = zone.interestManager.updateView(
+        socketId,
+        player.position
+      );
+      const view = getClientView(state, playerId, visible);
+
+      if (Object.keys(left).length > 0) {
+        const leftView: LeftView = {};
+        for (const collection of Object.keys(left) as (keyof GameState)[]) {
+          const current = state[collection];
+          leftView[collection] = left[collection].map((id) => ({
+            id,
+            // Gone from the zone, e.g. killed or disconnected, rather than
+            // just out of range
+            despawned: !current[id],
+          }));
         }
+        io.to(socketId).emit("leaveView", leftView);
       }
-      // Update player data in the database
-      db.collection<PlayerData>("players").updateOne(
-        { playerId },
-        { $set: { exp: player.exp, level: player.level } }
+
+      if (Object.keys(entered).length > 0) {
+        const enteredView: {
+          [collection: string]: { [id: string]: object };
+        } = {};
+        for (const collection of Object.keys(entered) as (keyof GameState)[]) {
+          const entities = view[collection];
+          enteredView[collection] = {};
+          for (const id of entered[collection]) {
+            enteredView[collection][id] = entities[id];
+          }
+        }
+        // Same collections as the view, only fewer entities
+        io.to(socketId).emit("enterView", enteredView as EnteredView);
+      }
+
+      const update = stateTrackers[socketId].buildUpdate(
+        world.tick,
+        timestamp,
+        view
       );
-      delete enemies[closestEnemy.id];
+      const encoder = stateEncoders[socketId];
+      let message: StateUpdate | Uint8Array = update;
+      if (encoder) {
+        try {
+          message = encoder.encode(update);
+        } catch (err) {
+          // The encoder may have numbered ids the client never hears about;
+          // the full state it gets next starts both over
+          console.error(`Could not encode game state for ${socketId}:`, err);
+          stateTrackers[socketId].reset();
+          continue;
+        }
+      }
+      io.to(socketId).emit("gameState", message);
     }
   }
 }
 
-function getGameState() {
-  const simplifiedPlayers: { [key: string]: PlayerData } = {};
-  for (const playerId in players) {
-    const player = players[playerId];
-    simplifiedPlayers[playerId] = {
-      playerId: player.playerId,
-      position: player.position,
-      level: player.level,
-      exp: player.exp,
-      direction: player.direction,
-      action: player.action,
-      health: player.health,
-      socketId: player.socketId,
-    };
-  }
+const PORT = process.env.PORT || 3000;
 
-  const simplifiedEnemies: { [key: string]: EnemyData } = {};
-  for (const enemy of Object.values(enemies)) {
-    if (enemy.alive) {
-      simplifiedEnemies[enemy.id] = {
-        id: enemy.id,
-        position: enemy.position,
-        health: enemy.health,
-        direction: enemy.direction,
-        action: enemy.action,
-      };
-    }
-  }
+// Storage has to be ready before the first socket can log in, so only start
+// the simulation and accept connections once it is
+async function start() {
+  await playerRepository.connect();
 
-  return { players: simplifiedPlayers, enemies: simplifiedEnemies };
+  lastUpdateTime = Date.now();
+  gameLoopTimer = setInterval(gameLoop, TICK_INTERVAL);
+  playerPersistence.start();
+
+  server.listen(PORT, () => {
+    console.log(`Server is running on port ${PORT}`);
+  });
 }
 
-function getDistance(
-  pos1: { x: number; y: number },
-  pos2: { x: number; y: number }
-) {
-  const dx = pos1.x - pos2.x;
-  const dy = pos1.y - pos2.y;
-  return Math.sqrt(dx * dx + dy * dy);
+let shuttingDown = false;
+
+// Stop the simulation, let every player's last state reach storage, then exit
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received, saving players before exit`);
+
+  clearInterval(gameLoopTimer);
+  playerPersistence.stop();
+  // Disconnecting every socket runs the disconnect handler, which saves
+  io.close();
+
+  try {
+    await playerPersistence.flush();
+    await playerRepository.close();
+  } catch (err) {
+    console.error("Error during shutdown:", err);
+    process.exit(1);
+  }
+  process.exit(0);
 }
 
-const PORT = process.env.PORT || 3000;
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
 
-server.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
+start().catch((err) => {
+  console.error("Failed to start server:", err);
+  process.exit(1);
 });
@@ -0,0 +1,57 @@
+import { Position } from "../../../shared/movement";
+
+/**
+ * Where every entity of a kind was over the last few ticks, newest last.
+ * Used to look at the world the way a lagging client saw it.
+ */
+export class PositionHistory {
+  private snapshots: Map<string, Position>[] = [];
+
+  constructor(private length: number) {}
+
+  // Remembers where everything is as of the tick that just ran
+  record(entities: Iterable<[string, Position]>) {
+    const snapshot = new Map<string, Position>();
+    for (const [id, position] of entities) {
+      snapshot.set(id, { ...position });
+    }
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > this.length) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * Where the entity was `ticksAgo` ticks before the newest snapshot,
+   * interpolated between ticks. Asking for further back than the history
+   * goes gives the oldest position known. Null if the entity isn't in the
+   * history at all, e.g. because it only just spawned.
+   */
+  positionAt(id: string, ticksAgo: number): Position | null {
+    const newest = this.snapshots.length - 1;
+    const time = Math.max(0, newest - Math.max(0, ticksAgo));
+    const before = this.findPosition(id, Math.floor(time), -1);
+    const after = this.findPosition(id, Math.ceil(time), 1);
+    if (!before || !after) return before ?? after;
+
+    const t = time - Math.floor(time);
+    return {
+      x: before.x + (after.x - before.x) * t,
+      y: before.y + (after.y - before.y) * t,
+    };
+  }
+
+  // The entity's position in the snapshot at `index`, or the nearest one
+  // in `step` direction that has it
+  private findPosition(
+    id: string,
+    index: number,
+    step: number
+  ): Position | null {
+    for (let i = index; i >= 0 && i < this.snapshots.length; i += step) {
+      const position = this.snapshots[i].get(id);
+      if (position) return position;
+    }
+    return null;
+  }
+}
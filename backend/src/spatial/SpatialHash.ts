@@ -0,0 +1,144 @@
+type Position = { x: number; y: number };
+
+interface Entry {
+  x: number;
+  y: number;
+  cellKey: string;
+}
+
+/**
+ * Spatial index bucketing items into a uniform grid of cells. Entities are
+ * inserted once and updated as they move, so radius and rectangle queries
+ * only look at the cells around the area instead of every entity.
+ */
+export class SpatialHash<T> {
+  private cells = new Map<string, Set<T>>();
+  private entries = new Map<T, Entry>();
+
+  constructor(private cellSize: number) {}
+
+  private cellKey(x: number, y: number): string {
+    return `${Math.floor(x / this.cellSize)},${Math.floor(y / this.cellSize)}`;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  insert(item: T, position: Position) {
+    if (this.entries.has(item)) {
+      this.update(item, position);
+      return;
+    }
+    const cellKey = this.cellKey(position.x, position.y);
+    this.entries.set(item, { x: position.x, y: position.y, cellKey });
+    this.addToCell(cellKey, item);
+  }
+
+  // Call whenever an item moves; only touches the cells if it changed cell
+  update(item: T, position: Position) {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      this.insert(item, position);
+      return;
+    }
+
+    entry.x = position.x;
+    entry.y = position.y;
+    const cellKey = this.cellKey(position.x, position.y);
+    if (cellKey !== entry.cellKey) {
+      this.removeFromCell(entry.cellKey, item);
+      this.addToCell(cellKey, item);
+      entry.cellKey = cellKey;
+    }
+  }
+
+  remove(item: T) {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    this.removeFromCell(entry.cellKey, item);
+    this.entries.delete(item);
+  }
+
+  // Items whose position lies inside the rectangle (edges included)
+  queryRect(minX: number, minY: number, maxX: number, maxY: number): T[] {
+    const results: T[] = [];
+    const startX = Math.floor(minX / this.cellSize);
+    const endX = Math.floor(maxX / this.cellSize);
+    const startY = Math.floor(minY / this.cellSize);
+    const endY = Math.floor(maxY / this.cellSize);
+
+    for (let cellX = startX; cellX <= endX; cellX++) {
+      for (let cellY = startY; cellY <= endY; cellY++) {
+        const cell = this.cells.get(`${cellX},${cellY}`);
+        if (!cell) continue;
+
+        for (const item of cell) {
+          const { x, y } = this.entries.get(item)!;
+          if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
+            results.push(item);
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  // Items within `radius` of the center
+  queryRadius(center: Position, radius: number): T[] {
+    return this.queryRect(
+      center.x - radius,
+      center.y - radius,
+      center.x + radius,
+      center.y + radius
+    ).filter((item) => {
+      const { x, y } = this.entries.get(item)!;
+      const dx = x - center.x;
+      const dy = y - center.y;
+      return dx * dx + dy * dy <= radius * radius;
+    });
+  }
+
+  // Closest item within `radius` of the center, optionally matching a filter
+  findNearest(
+    center: Position,
+    radius: number,
+    filter: (item: T) => boolean = () => true
+  ): T | null {
+    let nearest: T | null = null;
+    let minDistance = Infinity;
+
+    for (const item of this.queryRadius(center, radius)) {
+      if (!filter(item)) continue;
+      const { x, y } = this.entries.get(item)!;
+      const distance = Math.hypot(x - center.x, y - center.y);
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearest = item;
+      }
+    }
+    return nearest;
+  }
+
+  private addToCell(cellKey: string, item: T) {
+    const cell = this.cells.get(cellKey);
+    if (cell) {
+      cell.add(item);
+    } else {
+      this.cells.set(cellKey, new Set([item]));
+    }
+  }
+
+  private removeFromCell(cellKey: string, item: T) {
+    const cell = this.cells.get(cellKey);
+    if (!cell) return;
+    cell.delete(item);
+    if (cell.size === 0) {
+      this.cells.delete(cellKey);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { MapLoader, SpawnZone } from "../MapLoader";
+import { Position } from "../../../shared/movement";
+
+// Random points tried per missing enemy before giving up until the next tick
+const SPAWN_ATTEMPTS = 10;
+
+interface ZoneState {
+  zone: SpawnZone;
+  enemyIds: Set<string>;
+  // Time left on each respawn that is still pending, in milliseconds
+  respawnTimers: number[];
+}
+
+/**
+ * Keeps every spawn zone from the map stocked with its own enemies. A zone
+ * starts full and refills each enemy that dies after the zone's respawn
+ * delay, somewhere inside the zone that the enemy fits.
+ */
+export class EnemySpawner {
+  private zones: ZoneState[];
+  private zoneOfEnemy = new Map<string, ZoneState>();
+
+  constructor(
+    mapLoader: MapLoader,
+    // Whether an enemy from the zone can spawn at a point, e.g. whether it
+    // fits there and keeps clear of players
+    private canSpawnAt: (position: Position, zone: SpawnZone) => boolean
+  ) {
+    this.zones = mapLoader.getSpawnZones().map((zone) => ({
+      zone,
+      enemyIds: new Set(),
+      respawnTimers: [],
+    }));
+  }
+
+  /**
+   * Spawns what each zone is missing. `spawn` creates the enemy and returns
+   * its id so the zone can track it.
+   */
+  update(
+    deltaTime: number,
+    spawn: (zone: SpawnZone, position: Position) => string
+  ) {
+    for (const state of this.zones) {
+      state.respawnTimers = state.respawnTimers
+        .map((timer) => timer - deltaTime)
+        .filter((timer) => timer > 0);
+
+      const missing =
+        state.zone.maxCount - state.enemyIds.size - state.respawnTimers.length;
+      for (let i = 0; i < missing; i++) {
+        const position = this.findSpawnPosition(state.zone);
+        if (!position) break; // Try again next tick
+
+        const enemyId = spawn(state.zone, position);
+        state.enemyIds.add(enemyId);
+        this.zoneOfEnemy.set(enemyId, state);
+      }
+    }
+  }
+
+  // The enemy is gone, so its zone starts counting down to a replacement
+  enemyRemoved(enemyId: string) {
+    const state = this.zoneOfEnemy.get(enemyId);
+    if (!state) return;
+
+    this.zoneOfEnemy.delete(enemyId);
+    state.enemyIds.delete(enemyId);
+    state.respawnTimers.push(state.zone.respawnDelay);
+  }
+
+  private findSpawnPosition(zone: SpawnZone): Position | null {
+    for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+      const position = {
+        x: zone.x + Math.random() * zone.width,
+        y: zone.y + Math.random() * zone.height,
+      };
+      if (this.canSpawnAt(position, zone)) {
+        return position;
+      }
+    }
+    return null;
+  }
+}
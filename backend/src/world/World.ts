@@ -0,0 +1,198 @@
+import { Player } from "../entities/Player";
+import { MapLoader, Portal } from "../MapLoader";
+import { EnemyTypes } from "../definitions";
+import { Zone, ZoneEvents } from "../zones/Zone";
+import { TICK_INTERVAL } from "../../../shared/constants";
+import { PlayerInput } from "../../../shared/movement";
+import { DEFAULT_ZONE } from "../../../shared/zones";
+
+// If the world falls this far behind, e.g. after the process was suspended,
+// it skips ahead instead of trying to catch up all at once
+const MAX_TICKS_PER_ADVANCE = 5;
+
+/**
+ * What happens in the world that players need to hear about. Whoever runs
+ * the world decides how, e.g. the server sends it over their socket.
+ */
+export interface WorldEvents {
+  playerDied(player: Player, respawnIn: number): void;
+  levelUp(player: Player, levelsGained: number): void;
+  inventoryChanged(player: Player): void;
+  zoneChanged(player: Player, from: Zone, to: Zone): void;
+}
+
+/**
+ * The whole game simulation: every zone and every player in them, stepped
+ * in fixed ticks of TICK_INTERVAL. Knows nothing about sockets or storage;
+ * inputs go in through its methods and what happens comes out as events and
+ * each zone's game state, so it can run headless.
+ */
+export class World {
+  readonly zones: { [zoneId: string]: Zone } = {};
+  // Every player in the world, whichever zone they are in
+  readonly players: { [playerId: string]: Player } = {};
+  private currentTick = 0;
+  // Time that has passed but not been simulated yet, in milliseconds
+  private accumulator = 0;
+  // Portal trips taken during a tick, made once every zone has been updated
+  private pendingZoneChanges: { player: Player; portal: Portal }[] = [];
+
+  constructor(
+    maps: { [zoneId: string]: MapLoader },
+    enemyTypes: EnemyTypes,
+    private events: WorldEvents
+  ) {
+    const zoneEvents: ZoneEvents = {
+      playerDied: (player, respawnIn) => events.playerDied(player, respawnIn),
+      levelUp: (player, levelsGained) => events.levelUp(player, levelsGained),
+      inventoryChanged: (player) => events.inventoryChanged(player),
+      enteredPortal: (player, portal) => {
+        // Moved once every zone has been updated, so nobody is updated twice
+        this.pendingZoneChanges.push({ player, portal });
+      },
+    };
+
+    for (const [zoneId, mapLoader] of Object.entries(maps)) {
+      for (const spawnZone of mapLoader.getSpawnZones()) {
+        if (!enemyTypes[spawnZone.enemyType]) {
+          throw new Error(
+            `Spawn zone "${spawnZone.name}" in zone "${zoneId}" uses unknown enemy type "${spawnZone.enemyType}"`
+          );
+        }
+      }
+      this.zones[zoneId] = new Zone(zoneId, mapLoader, enemyTypes, zoneEvents);
+    }
+    if (!this.zones[DEFAULT_ZONE]) {
+      throw new Error(`No map for the default zone "${DEFAULT_ZONE}"`);
+    }
+
+    for (const zone of Object.values(this.zones)) {
+      for (const portal of zone.mapLoader.getPortals()) {
+        const target = this.zones[portal.targetZone];
+        if (!target) {
+          throw new Error(
+            `Portal "${portal.name}" in zone "${zone.id}" leads to unknown zone "${portal.targetZone}"`
+          );
+        }
+        // Throws if the target map has no such spawn point
+        target.getPlayerSpawnPoint(portal.targetSpawn);
+      }
+    }
+
+    for (const zone of Object.values(this.zones)) {
+      zone.spawnEnemies(0);
+    }
+  }
+
+  // Ticks simulated so far
+  get tick(): number {
+    return this.currentTick;
+  }
+
+  /**
+   * Puts a player into the zone they were saved in, or the default zone if
+   * it no longer exists. Players who died and left before respawning come
+   * back alive.
+   */
+  addPlayer(player: Player): Zone {
+    let zone = this.zones[player.zone];
+    if (!zone) {
+      zone = this.zones[DEFAULT_ZONE];
+      player.moveToZone(zone.id, zone.getPlayerSpawnPoint());
+    }
+    if (!player.isAlive) {
+      player.respawn(zone.getPlayerSpawnPoint());
+    }
+    this.players[player.playerId] = player;
+    zone.addPlayer(player);
+    return zone;
+  }
+
+  // Other players see the player leave their view on the next tick
+  removePlayer(playerId: string): Player | undefined {
+    const player = this.players[playerId];
+    if (!player) return undefined;
+
+    this.zoneOf(player).removePlayer(player);
+    delete this.players[playerId];
+    return player;
+  }
+
+  zoneOf(player: Player): Zone {
+    return this.zones[player.zone];
+  }
+
+  /**
+   * Queued until the player's next tick. `viewDelay` is how far behind the
+   * world the player's view of it was when they sent the input, in ms, so
+   * their attacks can be checked against what they saw.
+   */
+  queueInput(playerId: string, input: PlayerInput, viewDelay = 0) {
+    this.players[playerId]?.setInput(input, viewDelay);
+  }
+
+  // Drops items from an inventory slot on the ground where the player stands
+  dropItem(playerId: string, slot: number, quantity: number): boolean {
+    const player = this.players[playerId];
+    if (!player || !player.isAlive) return false;
+
+    const removed = player.removeItem(slot, quantity);
+    if (!removed) return false;
+
+    this.zoneOf(player).spawnDrop(
+      removed.itemId,
+      removed.quantity,
+      player.position,
+      player
+    );
+    this.events.inventoryChanged(player);
+    return true;
+  }
+
+  /**
+   * Lets `elapsed` milliseconds of real time pass, simulating however many
+   * whole ticks fit in it. Leftover time carries over to the next call.
+   * Returns the number of ticks simulated.
+   */
+  advance(elapsed: number): number {
+    this.accumulator += elapsed;
+    let ticks = 0;
+    while (this.accumulator >= TICK_INTERVAL) {
+      if (ticks === MAX_TICKS_PER_ADVANCE) {
+        this.accumulator = 0;
+        break;
+      }
+      this.step();
+      this.accumulator -= TICK_INTERVAL;
+      ticks++;
+    }
+    return ticks;
+  }
+
+  // Simulates exactly one tick
+  step() {
+    this.currentTick++;
+    for (const zone of Object.values(this.zones)) {
+      zone.update(TICK_INTERVAL);
+    }
+    this.applyZoneChanges();
+    for (const zone of Object.values(this.zones)) {
+      zone.spawnEnemies(TICK_INTERVAL);
+    }
+  }
+
+  // Moves players who walked into a portal to the zone it leads to
+  private applyZoneChanges() {
+    for (const { player, portal } of this.pendingZoneChanges.splice(0)) {
+      // Left the game while the change was pending
+      if (!this.players[player.playerId]) continue;
+
+      const from = this.zoneOf(player);
+      const to = this.zones[portal.targetZone];
+      from.removePlayer(player);
+      player.moveToZone(to.id, to.getPlayerSpawnPoint(portal.targetSpawn));
+      to.addPlayer(player);
+      this.events.zoneChanged(player, from, to);
+    }
+  }
+}
@@ -0,0 +1,386 @@
+import { Player } from "../entities/Player";
+import { Enemy } from "../entities/Enemy";
+import { ItemDrop } from "../entities/ItemDrop";
+import { MapLoader, Portal } from "../MapLoader";
+import { EntityIds, InterestManager } from "../network/InterestManager";
+import { SpatialHash } from "../spatial/SpatialHash";
+import { PositionHistory } from "../spatial/PositionHistory";
+import { EnemySpawner } from "../spawning/EnemySpawner";
+import { Pathfinder } from "../pathfinding/Pathfinder";
+import { EnemyTypes } from "../definitions";
+import { rollLoot } from "../inventory/loot";
+import { Position } from "../../../shared/movement";
+import { isInAttackArc, MAX_ATTACK_REWIND } from "../../../shared/combat";
+import { TICK_INTERVAL } from "../../../shared/constants";
+import { bodyBox } from "../../../shared/collision";
+import {
+  EnemyData,
+  GameState,
+  ItemDropData,
+  PlayerState,
+} from "../../../shared/protocol";
+
+// Enemies don't spawn right next to a player or on top of each other
+const SPAWN_MIN_PLAYER_DISTANCE = 150;
+const SPAWN_MIN_ENEMY_DISTANCE = 32;
+const RESPAWN_DELAY = 5000;
+// Walking within this distance of a drop picks it up
+const PICKUP_RADIUS = 16;
+// Loot lands scattered around where the enemy died
+const LOOT_SCATTER = 12;
+const SPATIAL_CELL_SIZE = 64;
+
+// The fastest any enemy type can move, in pixels per second
+function fastestEnemySpeed(enemyTypes: EnemyTypes): number {
+  let fastest = 0;
+  for (const enemyType of Object.values(enemyTypes)) {
+    for (const movement of Object.values(enemyType.movements)) {
+      fastest = Math.max(
+        fastest,
+        movement.distance / (movement.duration / 1000)
+      );
+    }
+  }
+  return fastest;
+}
+
+/**
+ * How a zone tells the rest of the server about things that happen in it,
+ * mostly so the players involved can be notified.
+ */
+export interface ZoneEvents {
+  playerDied(player: Player, respawnIn: number): void;
+  levelUp(player: Player, levelsGained: number): void;
+  inventoryChanged(player: Player): void;
+  enteredPortal(player: Player, portal: Portal): void;
+}
+
+/**
+ * One map and everything in it. Each zone runs its own simulation; players
+ * only ever see and interact with the zone they are in.
+ */
+export class Zone {
+  // Socket.IO room of the sockets whose players are in this zone
+  readonly room: string;
+  readonly players: { [key: string]: Player } = {};
+  readonly enemies: { [key: string]: Enemy } = {};
+  readonly drops: { [key: string]: ItemDrop } = {};
+
+  // Spatial indexes of everything alive, updated as entities move
+  private playerIndex = new SpatialHash<Player>(SPATIAL_CELL_SIZE);
+  private enemyIndex = new SpatialHash<Enemy>(SPATIAL_CELL_SIZE);
+  private dropIndex = new SpatialHash<ItemDrop>(SPATIAL_CELL_SIZE);
+  // Where enemies were on recent ticks, to resolve attacks from lagging
+  // players against what they saw
+  private enemyHistory = new PositionHistory(
+    Math.ceil(MAX_ATTACK_REWIND / TICK_INTERVAL) + 1
+  );
+  // Which entities each socket in the zone can currently see
+  readonly interestManager = new InterestManager({
+    players: {
+      index: this.playerIndex,
+      idOf: (player: Player) => player.playerId,
+    },
+    enemies: { index: this.enemyIndex, idOf: (enemy: Enemy) => enemy.id },
+    drops: { index: this.dropIndex, idOf: (drop: ItemDrop) => drop.id },
+  });
+  // Paths for enemies chasing players around obstacles
+  private pathfinder: Pathfinder;
+  // Keeps the map's spawn zones stocked
+  private enemySpawner: EnemySpawner;
+  private portals: Portal[];
+  // No enemy moves further than this within MAX_ATTACK_REWIND, so rewound
+  // targets are among the enemies this much beyond attack range today
+  private maxRewindTravel: number;
+
+  constructor(
+    readonly id: string,
+    readonly mapLoader: MapLoader,
+    private enemyTypes: EnemyTypes,
+    private events: ZoneEvents
+  ) {
+    this.room = `zone:${id}`;
+    this.pathfinder = new Pathfinder(mapLoader);
+    this.maxRewindTravel = Math.ceil(
+      (fastestEnemySpeed(enemyTypes) * MAX_ATTACK_REWIND) / 1000
+    );
+    this.enemySpawner = new EnemySpawner(
+      mapLoader,
+      (position, zone) =>
+        !mapLoader.isBoxBlocked(
+          bodyBox(position, enemyTypes[zone.enemyType].body)
+        ) &&
+        this.playerIndex.queryRadius(position, SPAWN_MIN_PLAYER_DISTANCE)
+          .length === 0 &&
+        this.enemyIndex.queryRadius(position, SPAWN_MIN_ENEMY_DISTANCE)
+          .length === 0
+    );
+    this.portals = mapLoader.getPortals();
+  }
+
+  addPlayer(player: Player) {
+    this.players[player.playerId] = player;
+    this.playerIndex.insert(player, player.position);
+  }
+
+  // Other viewers see the player leave their view on the next tick
+  removePlayer(player: Player) {
+    this.playerIndex.remove(player);
+    delete this.players[player.playerId];
+  }
+
+  getPlayerSpawnPoint(name?: string): Position {
+    return this.mapLoader.getPlayerSpawnPoint(name);
+  }
+
+  update(deltaTime: number) {
+    for (const player of Object.values(this.players)) {
+      if (player.updateRespawnTimer(deltaTime)) {
+        player.respawn(this.getPlayerSpawnPoint());
+      }
+      if (player.updateAttack(deltaTime)) {
+        this.handleAttack(player);
+      }
+      player.processInput(this.mapLoader); // Pass mapLoader for collision detection
+      this.playerIndex.update(player, player.position);
+
+      const portal = player.isAlive && this.findPortalAt(player.position);
+      if (portal) {
+        this.events.enteredPortal(player, portal);
+      }
+    }
+
+    this.updateDrops(deltaTime);
+
+    // Update Enemies Behavior
+    for (const enemy of Object.values(this.enemies)) {
+      if (enemy.alive) {
+        enemy.findTarget(this.players, this.playerIndex);
+        enemy.performAction(this.players, this.pathfinder);
+        enemy.move(deltaTime, this.mapLoader);
+        this.enemyIndex.update(enemy, enemy.position);
+
+        for (const target of enemy.findContactTargets(
+          deltaTime,
+          this.playerIndex
+        )) {
+          this.damagePlayer(target, enemy.contactDamage);
+        }
+      }
+    }
+    this.pathfinder.update();
+
+    this.enemyHistory.record(
+      Object.values(this.enemies).map((enemy) => [enemy.id, enemy.position])
+    );
+  }
+
+  spawnEnemies(deltaTime: number) {
+    this.enemySpawner.update(deltaTime, (zone, position) => {
+      const enemy = new Enemy(position, this.enemyTypes[zone.enemyType]);
+      this.enemies[enemy.id] = enemy;
+      this.enemyIndex.insert(enemy, enemy.position);
+      return enemy.id;
+    });
+  }
+
+  spawnDrop(
+    itemId: string,
+    quantity: number,
+    position: { x: number; y: number },
+    droppedBy?: Player
+  ) {
+    const drop = new ItemDrop(
+      itemId,
+      quantity,
+      position,
+      droppedBy?.playerId ?? null
+    );
+    this.drops[drop.id] = drop;
+    this.dropIndex.insert(drop, drop.position);
+  }
+
+  private findPortalAt(position: Position): Portal | undefined {
+    return this.portals.find(
+      (portal) =>
+        position.x >= portal.x &&
+        position.x < portal.x + portal.width &&
+        position.y >= portal.y &&
+        position.y < portal.y + portal.height
+    );
+  }
+
+  private damagePlayer(player: Player, amount: number) {
+    const died = player.takeDamage(amount, RESPAWN_DELAY);
+    if (died) {
+      this.events.playerDied(player, RESPAWN_DELAY);
+    }
+  }
+
+  private removeDrop(drop: ItemDrop) {
+    this.dropIndex.remove(drop);
+    delete this.drops[drop.id];
+  }
+
+  // Expires old drops and lets players pick up whatever they walk over
+  private updateDrops(deltaTime: number) {
+    for (const drop of Object.values(this.drops)) {
+      if (drop.updateLifetime(deltaTime)) {
+        this.removeDrop(drop);
+        continue;
+      }
+      if (drop.ignoredBy) {
+        const dropper = this.players[drop.ignoredBy];
+        if (
+          !dropper ||
+          Math.hypot(
+            dropper.position.x - drop.position.x,
+            dropper.position.y - drop.position.y
+          ) > PICKUP_RADIUS
+        ) {
+          drop.ignoredBy = null;
+        }
+      }
+    }
+
+    for (const player of Object.values(this.players)) {
+      if (!player.isAlive) continue;
+
+      let pickedUpAny = false;
+      for (const drop of this.dropIndex.queryRadius(
+        player.position,
+        PICKUP_RADIUS
+      )) {
+        if (drop.ignoredBy === player.playerId) continue;
+
+        const pickedUp = player.pickUp(drop.itemId, drop.quantity);
+        if (pickedUp === 0) continue; // No room for it
+        pickedUpAny = true;
+        drop.quantity -= pickedUp;
+        if (drop.quantity === 0) {
+          this.removeDrop(drop);
+        }
+      }
+      if (pickedUpAny) {
+        this.events.inventoryChanged(player);
+      }
+    }
+  }
+
+  // Hits every enemy in the arc in front of the player that this swing
+  // hasn't hit yet. Enemies are where the player saw them, which is a
+  // little in the past; the player is where they are now, as they see
+  // themselves.
+  private handleAttack(player: Player) {
+    const range = player.stats.attackRange;
+    const hitbox = player.attackHitbox;
+    const ticksAgo = player.attackRewind / TICK_INTERVAL;
+    const targets = this.enemyIndex
+      .queryRadius(player.position, range + this.maxRewindTravel)
+      .filter(
+        (enemy) =>
+          enemy.alive &&
+          isInAttackArc(
+            player.position,
+            player.direction,
+            this.enemyHistory.positionAt(enemy.id, ticksAgo) ?? enemy.position,
+            range,
+            hitbox
+          )
+      );
+
+    for (const enemy of targets) {
+      if (!player.registerHit(enemy.id)) continue;
+
+      const isDead = enemy.takeDamage(player.stats.attack);
+      if (isDead) {
+        const levelsGained = player.gainExp(enemy.expReward);
+        if (levelsGained > 0) {
+          this.events.levelUp(player, levelsGained);
+        }
+        this.enemyIndex.remove(enemy);
+        this.enemySpawner.enemyRemoved(enemy.id);
+        this.pathfinder.cancel(enemy.id);
+        delete this.enemies[enemy.id];
+
+        for (const loot of rollLoot(this.enemyTypes[enemy.type].loot)) {
+          this.spawnDrop(loot.itemId, loot.quantity, {
+            x: enemy.position.x + (Math.random() * 2 - 1) * LOOT_SCATTER,
+            y: enemy.position.y + (Math.random() * 2 - 1) * LOOT_SCATTER,
+          });
+        }
+      }
+    }
+  }
+
+  getGameState(): GameState {
+    const simplifiedPlayers: { [key: string]: PlayerState } = {};
+    for (const playerId in this.players) {
+      simplifiedPlayers[playerId] = this.players[playerId].getState();
+    }
+
+    const simplifiedEnemies: { [key: string]: EnemyData } = {};
+    for (const enemy of Object.values(this.enemies)) {
+      if (enemy.alive) {
+        simplifiedEnemies[enemy.id] = {
+          id: enemy.id,
+          type: enemy.type,
+          position: { ...enemy.position },
+          health: enemy.health,
+          direction: enemy.direction,
+          action: enemy.action,
+        };
+      }
+    }
+
+    const simplifiedDrops: { [key: string]: ItemDropData } = {};
+    for (const drop of Object.values(this.drops)) {
+      simplifiedDrops[drop.id] = {
+        id: drop.id,
+        itemId: drop.itemId,
+        quantity: drop.quantity,
+        position: { ...drop.position },
+      };
+    }
+
+    return {
+      players: simplifiedPlayers,
+      enemies: simplifiedEnemies,
+      drops: simplifiedDrops,
+    };
+  }
+}
+
+// What one client gets to see of the game state: only the entities in its view
+export function getClientView(
+  state: GameState,
+  playerId: string,
+  visible: EntityIds
+): GameState {
+  const visiblePlayers: { [key: string]: PlayerState } = {};
+  for (const id of visible.players ?? []) {
+    if (id === playerId) {
+      visiblePlayers[id] = state.players[id];
+    } else {
+      // Other clients have no use for our input acknowledgements
+      const { lastProcessedInput, ...otherPlayer } = state.players[id];
+      visiblePlayers[id] = otherPlayer;
+    }
+  }
+
+  const visibleEnemies: { [key: string]: EnemyData } = {};
+  for (const id of visible.enemies ?? []) {
+    visibleEnemies[id] = state.enemies[id];
+  }
+
+  const visibleDrops: { [key: string]: ItemDropData } = {};
+  for (const id of visible.drops ?? []) {
+    visibleDrops[id] = state.drops[id];
+  }
+
+  return {
+    players: visiblePlayers,
+    enemies: visibleEnemies,
+    drops: visibleDrops,
+  };
+}
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Inventory } from "../src/inventory/Inventory";
+import { ItemDefinitions } from "../src/definitions";
+import { INVENTORY_SIZE } from "../../shared/items";
+
+const items: ItemDefinitions = {
+  coin: { id: "coin", name: "Coin", maxStack: 10, color: "#ffcc00" },
+  sword: {
+    id: "sword",
+    name: "Sword",
+    maxStack: 1,
+    color: "#999999",
+    equipment: { slot: "weapon", stats: { attack: 5 } },
+  },
+};
+
+test("new items top up existing stacks before taking empty slots", () => {
+  const inventory = new Inventory(items, [
+    null,
+    { itemId: "coin", quantity: 7 },
+  ]);
+
+  assert.equal(inventory.add("coin", 5), 0);
+  assert.deepEqual(inventory.getSlot(0), { itemId: "coin", quantity: 2 });
+  assert.deepEqual(inventory.getSlot(1), { itemId: "coin", quantity: 10 });
+});
+
+test("items that don't stack take a slot each", () => {
+  const inventory = new Inventory(items);
+
+  assert.equal(inventory.add("sword", 2), 0);
+  assert.deepEqual(inventory.getSlot(0), { itemId: "sword", quantity: 1 });
+  assert.deepEqual(inventory.getSlot(1), { itemId: "sword", quantity: 1 });
+  assert.equal(inventory.getSlot(2), null);
+});
+
+test("a full inventory returns what doesn't fit", () => {
+  const inventory = new Inventory(items);
+  assert.equal(inventory.add("sword", INVENTORY_SIZE - 1), 0);
+
+  assert.equal(inventory.hasRoomFor("coin", 10), true);
+  assert.equal(inventory.hasRoomFor("coin", 11), false);
+  assert.equal(inventory.add("coin", 15), 5);
+  assert.equal(inventory.add("sword", 1), 1);
+});
+
+test("unknown items are never added", () => {
+  const inventory = new Inventory(items);
+
+  assert.equal(inventory.hasRoomFor("gem", 1), false);
+  assert.equal(inventory.add("gem", 3), 3);
+  assert.ok(inventory.getSlots().every((slot) => slot === null));
+});
+
+test("removing from a slot empties it once nothing is left", () => {
+  const inventory = new Inventory(items, [{ itemId: "coin", quantity: 4 }]);
+
+  assert.deepEqual(inventory.removeFromSlot(0, 3), {
+    itemId: "coin",
+    quantity: 3,
+  });
+  assert.deepEqual(inventory.getSlot(0), { itemId: "coin", quantity: 1 });
+  // Asking for more than there is takes what there is
+  assert.deepEqual(inventory.removeFromSlot(0, 5), {
+    itemId: "coin",
+    quantity: 1,
+  });
+  assert.equal(inventory.getSlot(0), null);
+  assert.equal(inventory.removeFromSlot(0, 1), null);
+});
+
+test("saved items whose definition is gone are dropped", () => {
+  const inventory = new Inventory(items, [
+    { itemId: "gem", quantity: 2 },
+    { itemId: "coin", quantity: 3 },
+  ]);
+
+  assert.equal(inventory.getSlots().length, INVENTORY_SIZE);
+  assert.equal(inventory.getSlot(0), null);
+  assert.deepEqual(inventory.getSlot(1), { itemId: "coin", quantity: 3 });
+});
@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Player, createPlayerData } from "../src/entities/Player";
+import { Inventory } from "../src/inventory/Inventory";
+import { Equipment } from "../src/inventory/Equipment";
+import {
+  PROGRESSION,
+  createEmptyAllocation,
+  expToNextLevel,
+  statsForLevel,
+} from "../../shared/stats";
+
+function createPlayer(): Player {
+  return new Player(
+    createPlayerData("hero"),
+    { statPoints: 0, allocatedStats: createEmptyAllocation() },
+    new Inventory({}, []),
+    new Equipment({}, {})
+  );
+}
+
+test("each level takes more exp than the last", () => {
+  const { base, exponent } = PROGRESSION.expCurve;
+  assert.equal(expToNextLevel(1), base);
+  assert.equal(expToNextLevel(4), Math.floor(base * 4 ** exponent));
+  for (let level = 1; level < PROGRESSION.maxLevel; level++) {
+    assert.ok(expToNextLevel(level + 1) > expToNextLevel(level));
+  }
+});
+
+test("stats grow with level and allocated points", () => {
+  const { baseStats: base, perLevel, perPoint } = PROGRESSION;
+  assert.deepEqual(statsForLevel(1, createEmptyAllocation()), base);
+
+  const stats = statsForLevel(3, { maxHealth: 2, attack: 1, defense: 0 });
+  assert.equal(
+    stats.maxHealth,
+    base.maxHealth + 2 * perLevel.maxHealth + 2 * perPoint.maxHealth
+  );
+  assert.equal(
+    stats.attack,
+    base.attack + 2 * perLevel.attack + perPoint.attack
+  );
+  assert.equal(stats.defense, base.defense + 2 * perLevel.defense);
+  // Only equipment changes these
+  assert.equal(stats.attackRange, base.attackRange);
+  assert.equal(stats.moveSpeed, base.moveSpeed);
+});
+
+test("exp worth several levels levels up several times", () => {
+  const player = createPlayer();
+  player.health = 1;
+
+  const levelsGained = player.gainExp(
+    expToNextLevel(1) + expToNextLevel(2) + 7
+  );
+
+  assert.equal(levelsGained, 2);
+  assert.equal(player.level, 3);
+  assert.equal(player.exp, 7);
+  assert.equal(player.statPoints, 2 * PROGRESSION.statPointsPerLevel);
+  assert.deepEqual(player.stats, statsForLevel(3, createEmptyAllocation()));
+  // Levelling up heals fully
+  assert.equal(player.health, player.maxHealth);
+});
+
+test("exp stops counting at the level cap", () => {
+  const player = createPlayer();
+  player.level = PROGRESSION.maxLevel - 1;
+
+  assert.equal(player.gainExp(expToNextLevel(player.level) * 3), 1);
+  assert.equal(player.level, PROGRESSION.maxLevel);
+  assert.equal(player.exp, 0);
+  assert.equal(player.gainExp(1000), 0);
+  assert.equal(player.exp, 0);
+});
+
+test("allocating a stat spends a point and raises the stat", () => {
+  const player = createPlayer();
+  assert.equal(player.allocateStat("attack"), false);
+
+  player.gainExp(expToNextLevel(1));
+  const attack = player.stats.attack;
+  assert.equal(player.allocateStat("attack"), true);
+
+  assert.equal(player.stats.attack, attack + PROGRESSION.perPoint.attack);
+  assert.equal(player.allocatedStats.attack, 1);
+  assert.equal(player.statPoints, PROGRESSION.statPointsPerLevel - 1);
+});
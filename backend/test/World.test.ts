@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { World } from "../src/world/World";
+import { Zone } from "../src/zones/Zone";
+import { MapLoader } from "../src/MapLoader";
+import { Player, createPlayerData } from "../src/entities/Player";
+import { Inventory } from "../src/inventory/Inventory";
+import { Equipment } from "../src/inventory/Equipment";
+import { loadEnemyTypes, loadItemDefinitions } from "../src/definitions";
+import { TICK_INTERVAL, TICK_RATE } from "../../shared/constants";
+import { ZONES } from "../../shared/zones";
+import { createEmptyAllocation } from "../../shared/stats";
+
+// Paths are relative to backend/, where npm test runs, as for the server
+const enemyTypes = loadEnemyTypes("../shared/enemies");
+const itemDefinitions = loadItemDefinitions("../shared/items");
+const maps: { [zoneId: string]: MapLoader } = {};
+for (const [zoneId, definition] of Object.entries(ZONES)) {
+  maps[zoneId] = new MapLoader(`../assets/maps/${definition.map}.tmx`);
+}
+
+// A world with every zone, recording the zone changes it reports
+function createWorld() {
+  const zoneChanges: { player: Player; from: Zone; to: Zone }[] = [];
+  const world = new World(maps, enemyTypes, {
+    playerDied() {},
+    levelUp() {},
+    inventoryChanged() {},
+    zoneChanged(player, from, to) {
+      zoneChanges.push({ player, from, to });
+    },
+  });
+  return { world, zoneChanges };
+}
+
+// A new character, at the default zone's usual starting point
+function createPlayer(playerId: string): Player {
+  return new Player(
+    createPlayerData(playerId),
+    { statPoints: 0, allocatedStats: createEmptyAllocation() },
+    new Inventory(itemDefinitions, []),
+    new Equipment(itemDefinitions, {})
+  );
+}
+
+test("a player moves by their speed on every tick they hold a key", () => {
+  const { world } = createWorld();
+  const player = createPlayer("walker");
+  world.addPlayer(player);
+  const start = { ...player.position };
+
+  for (let seq = 1; seq <= 10; seq++) {
+    world.queueInput("walker", { seq, right: true });
+    world.step();
+  }
+
+  const step = player.stats.moveSpeed / TICK_RATE;
+  assert.ok(Math.abs(player.position.x - (start.x + 10 * step)) < 1e-9);
+  assert.equal(player.position.y, start.y);
+  assert.equal(player.lastProcessedInput, 10);
+
+  // Without new input the player stays put
+  world.step();
+  assert.ok(Math.abs(player.position.x - (start.x + 10 * step)) < 1e-9);
+});
+
+test("advance simulates whole ticks and carries the rest over", () => {
+  const { world } = createWorld();
+
+  assert.equal(world.advance(TICK_INTERVAL * 2.5), 2);
+  assert.equal(world.tick, 2);
+  assert.equal(world.advance(TICK_INTERVAL / 2), 1);
+  assert.equal(world.tick, 3);
+
+  // Far behind, it catches up a few ticks and drops the rest
+  assert.equal(world.advance(TICK_INTERVAL * 100), 5);
+  assert.equal(world.advance(0), 0);
+  assert.equal(world.tick, 8);
+});
+
+test("a portal takes a player to its target zone after the tick", () => {
+  const { world, zoneChanges } = createWorld();
+  const player = createPlayer("traveller");
+  const portal = maps.meadow
+    .getPortals()
+    .find((portal) => portal.targetZone === "grove");
+  assert.ok(portal);
+  player.position = { x: portal.x + 1, y: portal.y + portal.height / 2 };
+  world.addPlayer(player);
+
+  world.step();
+
+  assert.equal(player.zone, "grove");
+  assert.deepEqual(
+    player.position,
+    maps.grove.getPlayerSpawnPoint(portal.targetSpawn)
+  );
+  assert.equal(zoneChanges.length, 1);
+  assert.equal(zoneChanges[0].from.id, "meadow");
+  assert.equal(zoneChanges[0].to.id, "grove");
+  assert.equal(world.zoneOf(player).id, "grove");
+});
+
+test("a dead player respawns at the spawn point once the delay is over", () => {
+  const { world } = createWorld();
+  const player = createPlayer("unlucky");
+  world.addPlayer(player);
+  player.position = { x: 320, y: 220 };
+
+  const respawnDelay = 1000;
+  assert.equal(player.takeDamage(player.health * 10, respawnDelay), true);
+
+  const ticks = respawnDelay / TICK_INTERVAL;
+  for (let i = 1; i < ticks; i++) world.step();
+  assert.equal(player.isAlive, false);
+
+  world.step();
+  assert.equal(player.isAlive, true);
+  assert.deepEqual(player.position, maps.meadow.getPlayerSpawnPoint());
+});
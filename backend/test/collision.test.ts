@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Body,
+  Box,
+  BoxCollision,
+  bodyBox,
+  moveBody,
+} from "../../shared/collision";
+
+const BODY: Body = { width: 10, height: 10, offsetX: 0, offsetY: 0 };
+
+// Solid boxes inside a 200 x 200 map, counting the tests made against them
+class Boxes implements BoxCollision {
+  tests = 0;
+
+  constructor(private solids: Box[]) {}
+
+  isBoxBlocked(box: Box): boolean {
+    this.tests++;
+    if (
+      box.x < 0 ||
+      box.y < 0 ||
+      box.x + box.width > 200 ||
+      box.y + box.height > 200
+    ) {
+      return true;
+    }
+    return this.solids.some(
+      (solid) =>
+        box.x < solid.x + solid.width &&
+        solid.x < box.x + box.width &&
+        box.y < solid.y + solid.height &&
+        solid.y < box.y + box.height
+    );
+  }
+}
+
+// A wall whose left side is at x = 100
+const wall = () => new Boxes([{ x: 100, y: 0, width: 20, height: 200 }]);
+
+function assertNear(actual: number, expected: number) {
+  assert.ok(
+    Math.abs(actual - expected) < 0.01,
+    `expected about ${expected}, got ${actual}`
+  );
+}
+
+test("a clear move goes all the way with one test per axis", () => {
+  const collision = wall();
+  const position = moveBody({ x: 50, y: 50 }, 30, -20, BODY, collision);
+
+  assert.deepEqual(position, { x: 80, y: 30 });
+  // Plus one for whether the body started out stuck
+  assert.equal(collision.tests, 3);
+});
+
+test("a body stops flush against a wall", () => {
+  const collision = wall();
+  const position = moveBody({ x: 90, y: 50 }, 8, 0, BODY, collision);
+
+  // The body's right edge is 5 from its middle
+  assertNear(position.x, 95);
+  assert.equal(collision.isBoxBlocked(bodyBox(position, BODY)), false);
+});
+
+test("a body slides along a wall it runs into diagonally", () => {
+  const position = moveBody({ x: 93, y: 50 }, 5, 5, BODY, wall());
+
+  assertNear(position.x, 95);
+  assert.equal(position.y, 55);
+});
+
+test("a body can't pass through something thinner than its move", () => {
+  const sliver = new Boxes([{ x: 100, y: 0, width: 0.1, height: 200 }]);
+  const position = moveBody({ x: 50, y: 50 }, 100, 0, BODY, sliver);
+
+  assertNear(position.x, 95);
+});
+
+test("a blocked move leaves the position as it was", () => {
+  const start = { x: 95, y: 50 };
+  assert.equal(moveBody(start, 4, 0, BODY, wall()), start);
+});
+
+test("a body stuck in a wall can get out but not in deeper", () => {
+  // A third of the body is inside the wall
+  const start = { x: 100, y: 50 };
+
+  assert.equal(moveBody(start, 2, 0, BODY, wall()), start);
+  assert.deepEqual(moveBody(start, -2, 0, BODY, wall()), { x: 98, y: 50 });
+  // Sliding along doesn't sink it deeper either
+  assert.deepEqual(moveBody(start, 0, 3, BODY, wall()), { x: 100, y: 53 });
+});
+
+test("a body off the map only moves back onto it", () => {
+  const start = { x: -5, y: 50 };
+
+  assert.equal(moveBody(start, -2, 0, BODY, wall()), start);
+  assert.deepEqual(moveBody(start, 2, 0, BODY, wall()), { x: -3, y: 50 });
+});
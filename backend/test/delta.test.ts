@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Snapshot,
+  applySnapshotChanges,
+  diffSnapshots,
+} from "../../shared/delta";
+
+const base: Snapshot = {
+  players: {
+    alice: { position: { x: 10, y: 20 }, health: 100, action: "idle" },
+    bob: { position: { x: 50, y: 60 }, health: 80, action: "walk" },
+  },
+  enemies: {
+    e1: { position: { x: 0, y: 0 }, health: 30 },
+  },
+};
+
+test("without a base every entity is sent in full", () => {
+  assert.deepEqual(diffSnapshots(undefined, base), {
+    players: { updated: base.players },
+    enemies: { updated: base.enemies },
+  });
+});
+
+test("only changed fields of changed entities are sent", () => {
+  const next: Snapshot = {
+    players: {
+      // Equal but not the same object, so it doesn't count as a change
+      alice: { position: { x: 10, y: 20 }, health: 90, action: "idle" },
+      bob: base.players.bob,
+    },
+    enemies: base.enemies,
+  };
+
+  assert.deepEqual(diffSnapshots(base, next), {
+    players: { updated: { alice: { health: 90 } } },
+    enemies: {},
+  });
+});
+
+test("added entities are sent in full and missing ones as removed", () => {
+  const next: Snapshot = {
+    players: { alice: base.players.alice },
+    enemies: {
+      e1: base.enemies.e1,
+      e2: { position: { x: 5, y: 5 }, health: 30 },
+    },
+  };
+
+  assert.deepEqual(diffSnapshots(base, next), {
+    players: { removed: ["bob"] },
+    enemies: {
+      updated: { e2: { position: { x: 5, y: 5 }, health: 30 } },
+    },
+  });
+});
+
+test("applying a diff to its base gives the next snapshot", () => {
+  const next: Snapshot = {
+    players: {
+      alice: { position: { x: 12, y: 20 }, health: 100, action: "walk" },
+      carol: { position: { x: 0, y: 0 }, health: 100, action: "idle" },
+    },
+    enemies: {},
+  };
+  const copy = structuredClone(base);
+
+  const changes = diffSnapshots(base, next);
+  assert.deepEqual(applySnapshotChanges(base, changes), next);
+  // The base stays usable for later deltas
+  assert.deepEqual(base, copy);
+});
+
+test("an empty diff leaves the base as it was", () => {
+  assert.deepEqual(applySnapshotChanges(base, diffSnapshots(base, base)), base);
+});
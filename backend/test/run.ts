@@ -0,0 +1,10 @@
+import fs from "fs";
+import path from "path";
+
+// Loads every *.test.ts file in this directory. The tests they define with
+// node:test run once everything is loaded, and any failure fails the run.
+for (const file of fs.readdirSync(__dirname).sort()) {
+  if (file.endsWith(".test.ts")) {
+    require(path.join(__dirname, file));
+  }
+}
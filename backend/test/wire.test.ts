@@ -0,0 +1,171 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { StateUpdate } from "../../shared/delta";
+import {
+  StateDecoder,
+  StateEncoder,
+  decodePlayerInput,
+  encodePlayerInput,
+} from "../../shared/wire";
+
+function enemy(id: string) {
+  return {
+    id,
+    type: "slime",
+    position: { x: 12.5, y: -3.25 },
+    health: 30,
+    direction: "left",
+    action: "hop",
+  };
+}
+
+function fullState(tick: number, ids: string[]): StateUpdate {
+  const updated: { [id: string]: object } = {};
+  for (const id of ids) updated[id] = enemy(id);
+  return {
+    tick,
+    timestamp: tick * 50,
+    baseTick: null,
+    changes: { enemies: { updated } },
+  };
+}
+
+// One enemy replaced by another since the tick before
+function replace(tick: number, removed: string, added: string): StateUpdate {
+  return {
+    tick,
+    timestamp: tick * 50,
+    baseTick: tick - 1,
+    changes: {
+      enemies: { updated: { [added]: enemy(added) }, removed: [removed] },
+    },
+  };
+}
+
+test("updates come out as they went in", () => {
+  const encoder = new StateEncoder();
+  const decoder = new StateDecoder();
+  const updates: StateUpdate[] = [
+    {
+      tick: 1,
+      timestamp: 1234.5,
+      baseTick: null,
+      changes: {
+        players: {
+          updated: {
+            alice: {
+              playerId: "alice",
+              zone: "meadow",
+              position: { x: 300, y: 200 },
+              level: 3,
+              exp: 120,
+              direction: "up",
+              action: "walk",
+              health: 80,
+              maxHealth: 120,
+              socketId: "abc",
+              appearance: { weapon: "wooden_sword" },
+              lastProcessedInput: 42,
+            },
+          },
+        },
+        enemies: { updated: { e1: enemy("e1") } },
+        drops: {},
+      },
+    },
+    {
+      tick: 2,
+      timestamp: 1284.5,
+      baseTick: 1,
+      changes: {
+        // Only what changed, including an action the tables don't know
+        players: { updated: { alice: { action: "dance" } } },
+        enemies: { removed: ["e1"] },
+      },
+    },
+  ];
+
+  for (const update of updates) {
+    assert.deepEqual(decoder.decode(encoder.encode(update)), update);
+  }
+});
+
+test("numbers of removed entities go to new ones", () => {
+  const encoder = new StateEncoder();
+  const decoder = new StateDecoder();
+  decoder.decode(encoder.encode(fullState(1, ["e1000"])));
+
+  const sizes: number[] = [];
+  for (let i = 0; i < 1000; i++) {
+    // Same tick every time, so only the ids can change the size
+    const update = replace(2, `e${1000 + i}`, `e${1001 + i}`);
+    const encoded = encoder.encode(update);
+    assert.deepEqual(decoder.decode(encoded), update);
+    sizes.push(encoded.length);
+  }
+  // However many enemies came and went, the new one gets the same number
+  assert.equal(Math.max(...sizes), Math.min(...sizes));
+});
+
+test("a full state starts the numbering over for a new decoder", () => {
+  const encoder = new StateEncoder();
+  new StateDecoder().decode(encoder.encode(fullState(1, ["a", "b", "c"])));
+  encoder.encode(replace(2, "a", "d"));
+
+  // E.g. after a zone change, or a client that lost track of the ids
+  const decoder = new StateDecoder();
+  const update = fullState(3, ["x", "y"]);
+  assert.deepEqual(decoder.decode(encoder.encode(update)), update);
+  const next = replace(4, "x", "z");
+  assert.deepEqual(decoder.decode(encoder.encode(next)), next);
+});
+
+test("a decoder that lost track only takes a full state", () => {
+  const encoder = new StateEncoder();
+  const decoder = new StateDecoder();
+  decoder.decode(encoder.encode(fullState(1, ["a"])));
+
+  // A delta the decoder never got, so the next one's ids mean nothing to it
+  encoder.encode(replace(2, "a", "b"));
+  assert.throws(() => decoder.decode(encoder.encode(replace(3, "b", "c"))));
+  assert.throws(
+    () => decoder.decode(encoder.encode(replace(4, "c", "d"))),
+    /out of sync/
+  );
+
+  const update = fullState(5, ["d"]);
+  assert.deepEqual(decoder.decode(encoder.encode(update)), update);
+  const next = replace(6, "d", "e");
+  assert.deepEqual(decoder.decode(encoder.encode(next)), next);
+});
+
+test("fields that don't match the schema are refused", () => {
+  const encoder = new StateEncoder();
+  const update = (entity: object): StateUpdate => ({
+    tick: 1,
+    timestamp: 0,
+    baseTick: null,
+    changes: { drops: { updated: { d1: entity } } },
+  });
+
+  assert.throws(
+    () => encoder.encode(update({ quantity: "3" })),
+    /drops field "quantity"/
+  );
+  assert.throws(
+    () => encoder.encode(update({ colour: "red" })),
+    /drops field "colour"/
+  );
+});
+
+test("inputs come out as they went in", () => {
+  const inputs = [
+    { seq: 1 },
+    { seq: 2, left: true, up: true, direction: "left" },
+    { seq: 300, right: true, down: true, action: "attack", renderTime: 1.5 },
+  ];
+  for (const input of inputs) {
+    assert.deepEqual(decodePlayerInput(encodePlayerInput(input)), input);
+  }
+  assert.throws(() => decodePlayerInput(new Uint8Array([1])));
+});
@@ -0,0 +1,24 @@
+import { WireFormat } from "../../shared/wire";
+
+export const BACKEND_URL =
+  import.meta.env.VITE_BACKEND_URL || "http://localhost:3000";
+
+// localStorage key for the session token issued by the backend
+export const SESSION_STORAGE_KEY = "session";
+
+// Snapshot interpolation for remote players and enemies
+export const INTERPOLATION = {
+  // How far behind the newest server snapshot remote entities are drawn (ms)
+  delay: Number(import.meta.env.VITE_INTERPOLATION_DELAY) || 100,
+  // How long to keep extrapolating once snapshots stop arriving (ms)
+  maxExtrapolation: 150,
+  // Jumps longer than this between two snapshots snap instead of sliding (px)
+  teleportDistance: 64,
+  // Snapshots kept per entity
+  bufferSize: 20,
+};
+
+// Format of the messages sent every tick. "json" is easier to read in the
+// browser's network tools; the server falls back to it if it has to.
+export const WIRE_FORMAT: WireFormat =
+  import.meta.env.VITE_WIRE_FORMAT === "json" ? "json" : "binary";
@@ -0,0 +1,24 @@
+import { EnemyType, validateEnemyType } from "../../shared/enemyTypes";
+import { ItemDefinition, validateItemDefinition } from "../../shared/items";
+
+// Bundled from the same definition files the server loads
+const enemyFiles = import.meta.glob<unknown>("../../shared/enemies/*.json", {
+  eager: true,
+  import: "default",
+});
+const itemFiles = import.meta.glob<unknown>("../../shared/items/*.json", {
+  eager: true,
+  import: "default",
+});
+
+export const ENEMY_TYPES: { [type: string]: EnemyType } = {};
+for (const [file, data] of Object.entries(enemyFiles)) {
+  const enemyType = validateEnemyType(data, file);
+  ENEMY_TYPES[enemyType.type] = enemyType;
+}
+
+export const ITEM_DEFINITIONS: { [itemId: string]: ItemDefinition } = {};
+for (const [file, data] of Object.entries(itemFiles)) {
+  const item = validateItemDefinition(data, file);
+  ITEM_DEFINITIONS[item.id] = item;
+}
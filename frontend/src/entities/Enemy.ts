@@ -1,22 +1,19 @@
 import Phaser from "phaser";
-
-interface EnemyData {
-  id: string;
-  position: { x: number; y: number };
-  health: number;
-  direction: string;
-  action: string;
-}
+import { SnapshotBuffer } from "../network/SnapshotBuffer";
+import { ENEMY_TYPES } from "../definitions";
+import { EnemyType } from "../../../shared/enemyTypes";
+import { EnemyData } from "../../../shared/protocol";
 
 export class Enemy {
   private scene: Phaser.Scene;
+  private definition: EnemyType;
   public sprite: Phaser.GameObjects.Sprite;
   public healthBarForeground: Phaser.GameObjects.Rectangle;
   private healthBarBackground: Phaser.GameObjects.Rectangle;
   private healthBarBorder: Phaser.GameObjects.Graphics;
   public maxHealth: number;
   public isAlive: boolean = true;
-  private targetPosition: { x: number; y: number };
+  private snapshots: SnapshotBuffer = new SnapshotBuffer();
   public currentHealth: number;
   public direction: string;
   public action: string;
@@ -24,8 +21,9 @@ export class Enemy {
 
   constructor(scene: Phaser.Scene, enemyData: EnemyData) {
     this.scene = scene;
-    this.maxHealth = enemyData.health;
-    this.targetPosition = { ...enemyData.position };
+    this.definition = ENEMY_TYPES[enemyData.type];
+    // Enemies can come into view already hurt
+    this.maxHealth = this.definition.health;
     this.currentHealth = enemyData.health;
     this.direction = enemyData.direction;
     this.action = enemyData.action;
@@ -33,7 +31,7 @@ export class Enemy {
     this.sprite = this.scene.add.sprite(
       enemyData.position.x,
       enemyData.position.y,
-      "slime"
+      this.definition.sprite.key
     );
     this.playAnimation(this.action, this.direction);
 
@@ -74,41 +72,23 @@ export class Enemy {
   }
 
   public static createAnimations(scene: Phaser.Scene) {
-    const animConfig = [
-      { key: "enemy_idle_down", start: 0, end: 3 },
-      { key: "enemy_idle_right", start: 7, end: 10 },
-      { key: "enemy_idle_left", start: 7, end: 10 },
-      { key: "enemy_idle_up", start: 14, end: 17 },
-      { key: "enemy_hop_down", start: 21, end: 26 },
-      { key: "enemy_hop_right", start: 28, end: 33 },
-      { key: "enemy_hop_left", start: 28, end: 33 },
-      { key: "enemy_hop_up", start: 35, end: 40 },
-      { key: "enemy_longJump_down", start: 42, end: 48 },
-      { key: "enemy_longJump_right", start: 49, end: 55 },
-      { key: "enemy_longJump_left", start: 49, end: 55 },
-      { key: "enemy_longJump_up", start: 56, end: 62 },
-      { key: "enemy_confused_down", start: 63, end: 65 },
-      { key: "enemy_confused_right", start: 70, end: 72 },
-      { key: "enemy_confused_left", start: 70, end: 72 },
-      { key: "enemy_confused_up", start: 77, end: 80 },
-      { key: "enemy_dying", start: 84, end: 88 },
-    ];
-
-    animConfig.forEach((anim) => {
-      scene.anims.create({
-        key: anim.key,
-        frames: scene.anims.generateFrameNumbers("slime", {
-          start: anim.start,
-          end: anim.end,
-        }),
-        frameRate: 10,
-        repeat: anim.key !== "enemy_dying" ? -1 : 0,
-      });
-    });
+    for (const definition of Object.values(ENEMY_TYPES)) {
+      for (const [name, anim] of Object.entries(definition.animations)) {
+        scene.anims.create({
+          key: `${definition.type}_${name}`,
+          frames: scene.anims.generateFrameNumbers(definition.sprite.key, {
+            start: anim.start,
+            end: anim.end,
+          }),
+          frameRate: anim.frameRate ?? 10,
+          repeat: anim.repeat ?? -1,
+        });
+      }
+    }
   }
 
-  updatePosition(position: { x: number; y: number }) {
-    this.targetPosition = position;
+  addSnapshot(time: number, position: { x: number; y: number }) {
+    this.snapshots.push(time, position);
   }
 
   updateHealth(health: number) {
@@ -153,10 +133,12 @@ export class Enemy {
     );
   }
 
-  interpolate() {
-    const t = 0.1;
-    this.sprite.x = Phaser.Math.Linear(this.sprite.x, this.targetPosition.x, t);
-    this.sprite.y = Phaser.Math.Linear(this.sprite.y, this.targetPosition.y, t);
+  interpolate(renderTime: number) {
+    const position = this.snapshots.sample(renderTime);
+    if (position) {
+      this.sprite.x = position.x;
+      this.sprite.y = position.y;
+    }
     this.healthBarBackground.x = this.sprite.x;
     this.healthBarBackground.y = this.sprite.y - 35;
     this.healthBarForeground.x = this.sprite.x;
@@ -191,18 +173,36 @@ export class Enemy {
       this.sprite.clearTint();
     }
     this.direction = direction;
-    const animKey = `enemy_${action}_${direction}`;
+    let animKey = `${this.definition.type}_${action}_${direction}`;
+    if (!this.scene.anims.exists(animKey)) {
+      // Not every enemy type animates every action
+      animKey = `${this.definition.type}_idle_${direction}`;
+    }
     if (this.sprite.anims.currentAnim?.key !== animKey) {
       this.sprite.play(animKey);
     }
   }
 
+  // Removes the enemy without a death animation, e.g. when it goes out of view
+  destroy() {
+    this.hideHealthBarTimer?.remove(false);
+    this.healthBarForeground.destroy();
+    this.healthBarBackground.destroy();
+    this.healthBarBorder.destroy();
+    this.sprite.destroy();
+  }
+
   die() {
     this.healthBarForeground.destroy();
     this.healthBarBackground.destroy();
     this.healthBarBorder.destroy();
     this.sprite.clearTint();
-    this.sprite.play("enemy_dying");
+    const dyingKey = `${this.definition.type}_dying`;
+    if (!this.scene.anims.exists(dyingKey)) {
+      this.sprite.destroy();
+      return;
+    }
+    this.sprite.play(dyingKey);
     this.sprite.once("animationcomplete", () => {
       this.sprite.destroy();
     });
@@ -0,0 +1,51 @@
+import Phaser from "phaser";
+import { ITEM_DEFINITIONS } from "../definitions";
+import { ItemDropData } from "../../../shared/protocol";
+
+// A stack of items on the ground, drawn in its item's colour
+export class ItemDrop {
+  private scene: Phaser.Scene;
+  private shape: Phaser.GameObjects.Arc;
+  private quantityText: Phaser.GameObjects.Text;
+  private bobTween: Phaser.Tweens.Tween;
+
+  constructor(scene: Phaser.Scene, dropData: ItemDropData) {
+    this.scene = scene;
+    const item = ITEM_DEFINITIONS[dropData.itemId];
+    const color = Phaser.Display.Color.HexStringToColor(
+      item?.color ?? "#ffffff"
+    ).color;
+
+    this.shape = this.scene.add
+      .circle(dropData.position.x, dropData.position.y, 3, color)
+      .setStrokeStyle(1, 0x000000);
+
+    this.quantityText = this.scene.add
+      .text(dropData.position.x + 3, dropData.position.y - 2, "", {
+        fontSize: "12px",
+        color: "#fff",
+      })
+      .setScale(1 / this.scene.cameras.main.zoom);
+    this.updateQuantity(dropData.quantity);
+
+    // A gentle bob so items stand out from the ground
+    this.bobTween = this.scene.tweens.add({
+      targets: this.shape,
+      y: dropData.position.y - 2,
+      duration: 600,
+      yoyo: true,
+      repeat: -1,
+      ease: "Sine.easeInOut",
+    });
+  }
+
+  updateQuantity(quantity: number) {
+    this.quantityText.setText(quantity > 1 ? `${quantity}` : "");
+  }
+
+  destroy() {
+    this.bobTween.remove();
+    this.shape.destroy();
+    this.quantityText.destroy();
+  }
+}
@@ -1,34 +1,43 @@
 import Phaser from "phaser";
-import { Socket } from "socket.io-client";
 import { UIScene } from "../scenes/UIScene";
-
-interface PlayerData {
-  playerId: string;
-  position: { x: number; y: number };
-  level: number;
-  exp: number;
-  direction: string;
-  action: string;
-}
+import { SnapshotBuffer } from "../network/SnapshotBuffer";
+import { GameSocket } from "../network/GameSocket";
+import { ITEM_DEFINITIONS } from "../definitions";
+import { CollisionMap } from "../../../shared/CollisionMap";
+import { PlayerStats } from "../../../shared/stats";
+import { ATTACK_ANIMATION } from "../../../shared/combat";
+import { PLAYER_BODY } from "../../../shared/collision";
+import {
+  applyPlayerInput,
+  PLAYER_SPEED,
+  PlayerInput,
+  Position,
+} from "../../../shared/movement";
+import { PlayerAppearance, PlayerState } from "../../../shared/protocol";
 
 export class Player {
   protected scene: Phaser.Scene;
-  protected socket: Socket;
+  protected socket: GameSocket;
   protected playerId: string;
   protected label: Phaser.GameObjects.Text;
   protected exp: number;
   protected level: number;
   protected isMoving: boolean = false;
   protected isAttacking: boolean = false;
+  // Server positions of a remote player, rendered slightly in the past
+  protected snapshots: SnapshotBuffer = new SnapshotBuffer();
   public sprite: Phaser.GameObjects.Sprite;
+  // Equipped weapon, drawn in the item's colour at the player's side
+  protected weapon: Phaser.GameObjects.Rectangle | null = null;
+  protected weaponId: string | null = null;
   public currentDirection: string = "right";
   public currentAction: string = "idle";
   public isLocal: boolean;
 
   constructor(
     scene: Phaser.Scene,
-    socket: Socket,
-    playerData: PlayerData,
+    socket: GameSocket,
+    playerData: PlayerState,
     isLocal: boolean = false
   ) {
     this.scene = scene;
@@ -45,6 +54,14 @@ export class Player {
     );
     this.sprite.setScale(1);
     this.sprite.play(`idle_right`);
+    // Same box the shared movement rules collide with, relative to the
+    // sprite's top left corner
+    (this.sprite.body as Phaser.Physics.Arcade.Body)
+      .setSize(PLAYER_BODY.width, PLAYER_BODY.height)
+      .setOffset(
+        this.sprite.width / 2 + PLAYER_BODY.offsetX - PLAYER_BODY.width / 2,
+        this.sprite.height / 2 + PLAYER_BODY.offsetY - PLAYER_BODY.height / 2
+      );
 
     this.label = this.scene.add
       .text(
@@ -58,6 +75,8 @@ export class Player {
       )
       .setOrigin(0.5)
       .setScale(1 / this.scene.cameras.main.zoom);
+
+    this.updateAppearance(playerData.appearance);
   }
 
   public static createAnimations(scene: Phaser.Scene) {
@@ -144,14 +163,15 @@ export class Player {
       repeat: -1,
     });
 
-    // Attack Animations
+    // Attack Animations, their timing is shared with the server's hit
+    // detection
     scene.anims.create({
       key: "attack_down",
       frames: scene.anims.generateFrameNumbers("player", {
         start: 36,
         end: 39,
       }),
-      frameRate: 12,
+      frameRate: ATTACK_ANIMATION.frameRate,
       repeat: 0,
     });
 
@@ -161,7 +181,7 @@ export class Player {
         start: 42,
         end: 45,
       }),
-      frameRate: 12,
+      frameRate: ATTACK_ANIMATION.frameRate,
       repeat: 0,
     });
 
@@ -171,7 +191,7 @@ export class Player {
         start: 42,
         end: 45,
       }),
-      frameRate: 12,
+      frameRate: ATTACK_ANIMATION.frameRate,
       repeat: 0,
     });
 
@@ -181,7 +201,7 @@ export class Player {
         start: 48,
         end: 51,
       }),
-      frameRate: 12,
+      frameRate: ATTACK_ANIMATION.frameRate,
       repeat: 0,
     });
 
@@ -201,17 +221,54 @@ export class Player {
     return this.exp;
   }
 
-  updatePosition(position: { x: number; y: number }) {
-    this.sprite.x = Phaser.Math.Interpolation.Linear(
-      [this.sprite.x, position.x],
-      0.9
-    );
-    this.sprite.y = Phaser.Math.Interpolation.Linear(
-      [this.sprite.y, position.y],
-      0.9
+  addSnapshot(time: number, position: { x: number; y: number }) {
+    this.snapshots.push(time, position);
+  }
+
+  interpolate(renderTime: number) {
+    const position = this.snapshots.sample(renderTime);
+    if (position) {
+      this.moveTo(position.x, position.y);
+    }
+  }
+
+  protected moveTo(x: number, y: number) {
+    this.sprite.x = x;
+    this.sprite.y = y;
+    this.label.x = x;
+    this.label.y = y - 15;
+    this.positionWeapon();
+  }
+
+  updateAppearance(appearance: PlayerAppearance) {
+    if (appearance.weapon === this.weaponId) return;
+    this.weaponId = appearance.weapon;
+
+    const item = this.weaponId ? ITEM_DEFINITIONS[this.weaponId] : undefined;
+    if (!item) {
+      this.weapon?.destroy();
+      this.weapon = null;
+      return;
+    }
+
+    if (!this.weapon) {
+      this.weapon = this.scene.add
+        .rectangle(0, 0, 2, 10, 0xffffff)
+        .setStrokeStyle(1, 0x000000);
+    }
+    this.weapon.setFillStyle(
+      Phaser.Display.Color.HexStringToColor(item.color).color
     );
-    this.label.x = position.x;
-    this.label.y = position.y - 15;
+    this.positionWeapon();
+  }
+
+  private positionWeapon() {
+    if (!this.weapon) return;
+    const side = this.currentDirection === "left" ? -1 : 1;
+    this.weapon
+      .setPosition(this.sprite.x + 7 * side, this.sprite.y + 4)
+      .setAngle(20 * side)
+      .setDepth(this.sprite.depth + 1);
   }
 
   updateExpBar(exp: number, level: number) {
@@ -229,6 +286,7 @@ export class Player {
         }
       }
       this.currentDirection = direction;
+      this.positionWeapon();
     }
   }
 
@@ -237,7 +295,8 @@ export class Player {
   }
 
   playAnimation(action: string, direction: string = this.currentDirection) {
-    if (this.isAttacking) return;
+    // Dying interrupts an attack, nothing else does
+    if (this.isAttacking && action !== "die") return;
 
     let animationKey = "";
 
@@ -252,13 +311,19 @@ export class Player {
       this.isAttacking = true;
     } else if (action === "die") {
       animationKey = "die";
+      this.isMoving = false;
+      if (this.isAttacking) {
+        this.isAttacking = false;
+        this.sprite.off("animationcomplete");
+      }
     }
 
     if (animationKey) {
-      // Check if the desired animation is already playing
+      // Check if the desired animation is already playing. Dying plays once
+      // and then holds its last frame until the player respawns.
       if (
-        this.sprite.anims.isPlaying &&
-        this.sprite.anims.currentAnim?.key === animationKey
+        this.sprite.anims.currentAnim?.key === animationKey &&
+        (this.sprite.anims.isPlaying || animationKey === "die")
       ) {
         // Desired animation is already playing; do nothing
         return;
@@ -285,12 +350,93 @@ export class Player {
   destroy() {
     this.sprite.destroy();
     this.label.destroy();
+    this.weapon?.destroy();
   }
 }
 
 export class LocalPlayer extends Player {
-  constructor(scene: Phaser.Scene, socket: Socket, playerData: PlayerData) {
+  private collisionMap: CollisionMap;
+  private speed: number = PLAYER_SPEED;
+  // Inputs applied locally that the server hasn't acknowledged yet
+  private pendingInputs: PlayerInput[] = [];
+  private predictedPosition: Position;
+  private previousPosition: Position;
+  public isAlive: boolean;
+
+  constructor(
+    scene: Phaser.Scene,
+    socket: GameSocket,
+    playerData: PlayerState,
+    collisionMap: CollisionMap
+  ) {
     super(scene, socket, playerData, true);
+    this.collisionMap = collisionMap;
+    this.predictedPosition = { ...playerData.position };
+    this.previousPosition = { ...playerData.position };
+    this.isAlive = playerData.health > 0;
+  }
+
+  /**
+   * Applies an input immediately instead of waiting for the server,
+   * using the same movement and collision rules the server runs.
+   */
+  applyInput(input: PlayerInput) {
+    this.previousPosition = this.predictedPosition;
+    this.predictedPosition = applyPlayerInput(
+      this.predictedPosition,
+      input,
+      this.speed,
+      this.collisionMap
+    );
+    this.pendingInputs.push(input);
+
+    if (input.direction) {
+      this.updateDirection(input.direction);
+    }
+    if (input.action) {
+      this.updateAction(input.action);
+      this.playAnimation(input.action);
+    }
+  }
+
+  /**
+   * Takes the server's position as of the last input it processed and
+   * replays the inputs it hasn't seen yet on top of it.
+   */
+  reconcile(serverPosition: Position, lastProcessedInput: number) {
+    this.pendingInputs = this.pendingInputs.filter(
+      (input) => input.seq > lastProcessedInput
+    );
+
+    let position = { ...serverPosition };
+    for (const input of this.pendingInputs) {
+      position = applyPlayerInput(
+        position,
+        input,
+        this.speed,
+        this.collisionMap
+      );
+    }
+    this.predictedPosition = position;
+  }
+
+  /**
+   * Draws the player between the last two predicted steps. `alpha` is how
+   * far we are into the current input step, from 0 to 1.
+   */
+  render(alpha: number) {
+    this.moveTo(
+      Phaser.Math.Linear(
+        this.previousPosition.x,
+        this.predictedPosition.x,
+        alpha
+      ),
+      Phaser.Math.Linear(
+        this.previousPosition.y,
+        this.predictedPosition.y,
+        alpha
+      )
+    );
   }
 
   updateExpBar(exp: number, level: number): void {
@@ -300,6 +446,31 @@ export class LocalPlayer extends Player {
     uiScene.updateExpBar(exp, level);
   }
 
+  // Equipment changes our speed, which prediction has to match
+  updateStats(stats: PlayerStats) {
+    this.speed = stats.moveSpeed;
+  }
+
+  updateHealth(health: number, maxHealth: number) {
+    const wasAlive = this.isAlive;
+    this.isAlive = health > 0;
+
+    if (wasAlive && !this.isAlive) {
+      // The server ignores movement while dead, so stop predicting it
+      this.pendingInputs = [];
+      this.updateAction("die");
+      this.playAnimation("die");
+    } else if (!wasAlive && this.isAlive) {
+      // Respawned somewhere else: jump there instead of sliding across
+      this.previousPosition = { ...this.predictedPosition };
+      this.updateAction("idle");
+      this.playAnimation("idle");
+    }
+
+    const uiScene = this.scene.scene.get("UIScene") as UIScene;
+    uiScene.updateHealthBar(health, maxHealth);
+  }
+
   destroy() {
     super.destroy();
   }
@@ -1,5 +1,6 @@
 import Phaser from "phaser";
 import { BootScene } from "./scenes/BootScene";
+import { LoginScene } from "./scenes/LoginScene";
 import { MainScene } from "./scenes/MainScene";
 import { UIScene } from "./scenes/UIScene";
 
@@ -19,7 +20,7 @@ const config: Phaser.Types.Core.GameConfig = {
   physics: {
     default: "arcade",
   },
-  scene: [BootScene, MainScene, UIScene],
+  scene: [BootScene, LoginScene, MainScene, UIScene],
 };
 
 export const game = new Phaser.Game(config);
@@ -0,0 +1,8 @@
+import { Socket } from "socket.io-client";
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from "../../../shared/protocol";
+
+// The connection to the server, typed with the events both sides agree on
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -0,0 +1,25 @@
+/**
+ * Estimates the server's clock from the timestamps on incoming snapshots.
+ * The estimate includes the one-way latency, so `now()` tracks the time of
+ * the newest snapshot we could have received, which is what interpolation
+ * is measured against.
+ */
+export class ServerClock {
+  private offset: number | null = null;
+
+  // Smooths out packet jitter; a new sample only moves the estimate a little
+  private static readonly SMOOTHING = 0.1;
+
+  sync(serverTimestamp: number) {
+    const sample = serverTimestamp - performance.now();
+    if (this.offset === null) {
+      this.offset = sample;
+    } else {
+      this.offset += (sample - this.offset) * ServerClock.SMOOTHING;
+    }
+  }
+
+  now(): number {
+    return performance.now() + (this.offset ?? 0);
+  }
+}
@@ -0,0 +1,76 @@
+import { INTERPOLATION } from "../config";
+
+interface Snapshot {
+  time: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Timestamped positions of one remote entity. Rendering samples the buffer
+ * at a time slightly in the past, so there are usually two snapshots to
+ * interpolate between even when packets arrive unevenly.
+ */
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+
+  push(time: number, position: { x: number; y: number }) {
+    const last = this.snapshots[this.snapshots.length - 1];
+    // Out of order or duplicate snapshot
+    if (last && time <= last.time) return;
+
+    // Teleported: drop the history so we snap instead of sliding across
+    if (
+      last &&
+      Math.hypot(position.x - last.x, position.y - last.y) >
+        INTERPOLATION.teleportDistance
+    ) {
+      this.snapshots = [];
+    }
+
+    this.snapshots.push({ time, x: position.x, y: position.y });
+    if (this.snapshots.length > INTERPOLATION.bufferSize) {
+      this.snapshots.shift();
+    }
+  }
+
+  sample(renderTime: number): { x: number; y: number } | null {
+    const snapshots = this.snapshots;
+    if (snapshots.length === 0) return null;
+
+    const first = snapshots[0];
+    if (renderTime <= first.time) {
+      return { x: first.x, y: first.y };
+    }
+
+    for (let i = 0; i < snapshots.length - 1; i++) {
+      const from = snapshots[i];
+      const to = snapshots[i + 1];
+      if (renderTime >= from.time && renderTime < to.time) {
+        const t = (renderTime - from.time) / (to.time - from.time);
+        return {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+        };
+      }
+    }
+
+    // Past the newest snapshot: keep moving along the last known velocity
+    // for a short while, then hold position until new data arrives
+    const last = snapshots[snapshots.length - 1];
+    const previous = snapshots[snapshots.length - 2];
+    if (!previous) {
+      return { x: last.x, y: last.y };
+    }
+
+    const elapsed = Math.min(
+      renderTime - last.time,
+      INTERPOLATION.maxExtrapolation
+    );
+    const duration = last.time - previous.time;
+    return {
+      x: last.x + ((last.x - previous.x) / duration) * elapsed,
+      y: last.y + ((last.y - previous.y) / duration) * elapsed,
+    };
+  }
+}
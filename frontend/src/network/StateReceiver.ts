@@ -0,0 +1,44 @@
+import {
+  applySnapshotChanges,
+  Snapshot,
+  StateUpdate,
+} from "../../../shared/delta";
+
+// Enough to cover the server's baseline window
+const HISTORY_SIZE = 64;
+
+/**
+ * Rebuilds full game states from the server's delta updates. Keeps the
+ * recent snapshots around because the server diffs against whichever one
+ * we acknowledged last, which may not be the newest.
+ */
+export class StateReceiver {
+  private history = new Map<number, Snapshot>();
+
+  /**
+   * Returns the full snapshot for the update, or null if we no longer have
+   * the baseline it was diffed against and need a full resync.
+   */
+  apply(update: StateUpdate): Snapshot | null {
+    let baseline: Snapshot | undefined;
+    if (update.baseTick !== null) {
+      baseline = this.history.get(update.baseTick);
+      if (!baseline) return null;
+    }
+
+    const snapshot = applySnapshotChanges(baseline, update.changes);
+    this.history.set(update.tick, snapshot);
+
+    for (const tick of this.history.keys()) {
+      if (tick <= update.tick - HISTORY_SIZE) {
+        this.history.delete(tick);
+      }
+    }
+
+    return snapshot;
+  }
+
+  reset() {
+    this.history.clear();
+  }
+}
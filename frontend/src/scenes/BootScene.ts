@@ -1,6 +1,8 @@
 import Phaser from "phaser";
 import { Player } from "../entities/Player";
 import { Enemy } from "../entities/Enemy";
+import { ENEMY_TYPES } from "../definitions";
+import { ZONES } from "../../../shared/zones";
 
 export class BootScene extends Phaser.Scene {
   constructor() {
@@ -8,7 +10,13 @@ export class BootScene extends Phaser.Scene {
   }
 
   preload() {
-    this.load.tilemapTiledJSON("map", "assets/maps/level.json");
+    // Every zone's map, so switching zones doesn't have to wait for one
+    for (const [zoneId, zone] of Object.entries(ZONES)) {
+      this.load.tilemapTiledJSON(
+        `map_${zoneId}`,
+        `assets/maps/${zone.map}.json`
+      );
+    }
     this.load.image("tiles", "assets/tilesets/plains.png");
     this.load.image("grass", "assets/tilesets/grass.png");
     this.load.image("water-sheet", "assets/tilesets/water-sheet.png");
@@ -23,15 +31,17 @@ export class BootScene extends Phaser.Scene {
       margin: 1,
       spacing: 2,
     });
-    this.load.spritesheet("slime", "assets/images/slime.png", {
-      frameWidth: 32,
-      frameHeight: 32,
-    });
+    for (const { sprite } of Object.values(ENEMY_TYPES)) {
+      this.load.spritesheet(sprite.key, sprite.path, {
+        frameWidth: sprite.frameWidth,
+        frameHeight: sprite.frameHeight,
+      });
+    }
   }
 
   create() {
     Player.createAnimations(this);
     Enemy.createAnimations(this);
-    this.scene.start("MainScene");
+    this.scene.start("LoginScene");
   }
 }
@@ -0,0 +1,107 @@
+import Phaser from "phaser";
+import { BACKEND_URL, SESSION_STORAGE_KEY } from "../config";
+
+export interface Session {
+  playerId: string;
+  token: string;
+}
+
+export class LoginScene extends Phaser.Scene {
+  private form!: HTMLFormElement;
+  private usernameInput!: HTMLInputElement;
+  private passwordInput!: HTMLInputElement;
+  private errorText!: HTMLDivElement;
+
+  constructor() {
+    super({ key: "LoginScene" });
+  }
+
+  create(data: { error?: string } = {}) {
+    // Skip the form when a previous session is still stored; MainScene
+    // sends us back here if the server rejects it
+    const storedSession = this.loadSession();
+    if (storedSession && !data.error) {
+      this.startGame(storedSession);
+      return;
+    }
+
+    this.form = document.getElementById("login-form") as HTMLFormElement;
+    this.usernameInput = document.getElementById(
+      "login-username"
+    ) as HTMLInputElement;
+    this.passwordInput = document.getElementById(
+      "login-password"
+    ) as HTMLInputElement;
+    this.errorText = document.getElementById("login-error") as HTMLDivElement;
+    const registerButton = document.getElementById(
+      "login-register"
+    ) as HTMLButtonElement;
+
+    this.errorText.textContent = data.error || "";
+    this.form.style.display = "block";
+    this.usernameInput.focus();
+
+    // Remove the DOM listeners again when the scene shuts down
+    const listeners = new AbortController();
+    this.events.once("shutdown", () => {
+      listeners.abort();
+      this.form.style.display = "none";
+    });
+
+    this.form.addEventListener(
+      "submit",
+      (event: SubmitEvent) => {
+        event.preventDefault();
+        this.authenticate("login");
+      },
+      { signal: listeners.signal }
+    );
+    registerButton.addEventListener(
+      "click",
+      () => this.authenticate("register"),
+      { signal: listeners.signal }
+    );
+  }
+
+  private async authenticate(endpoint: "login" | "register") {
+    this.errorText.textContent = "";
+
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/${endpoint}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          username: this.usernameInput.value.trim(),
+          password: this.passwordInput.value,
+        }),
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        this.errorText.textContent = body.error || "Something went wrong";
+        return;
+      }
+
+      const session: Session = { playerId: body.playerId, token: body.token };
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+      this.passwordInput.value = "";
+      this.startGame(session);
+    } catch (err) {
+      console.error("Authentication request failed:", err);
+      this.errorText.textContent = "Could not reach the server";
+    }
+  }
+
+  private loadSession(): Session | null {
+    try {
+      const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private startGame(session: Session) {
+    this.scene.start("MainScene", session);
+  }
+}
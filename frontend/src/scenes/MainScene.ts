@@ -1,43 +1,72 @@
 import Phaser from "phaser";
-import { io, Socket } from "socket.io-client";
+import { io } from "socket.io-client";
 import { LocalPlayer, Player } from "../entities/Player";
 import { Enemy } from "../entities/Enemy";
-
-interface PlayerData {
-  playerId: string;
-  position: { x: number; y: number };
-  level: number;
-  exp: number;
-  direction: string;
-  action: string;
-}
-
-interface EnemyData {
-  id: string;
-  position: { x: number; y: number };
-  health: number;
-  direction: string;
-  action: string;
-}
-
-interface GameState {
-  players: { [key: string]: PlayerData };
-  enemies: { [key: string]: EnemyData };
-}
+import { ItemDrop } from "../entities/ItemDrop";
+import { UIScene } from "./UIScene";
+import {
+  BACKEND_URL,
+  INTERPOLATION,
+  SESSION_STORAGE_KEY,
+  WIRE_FORMAT,
+} from "../config";
+import { ServerClock } from "../network/ServerClock";
+import { StateReceiver } from "../network/StateReceiver";
+import { GameSocket } from "../network/GameSocket";
+import { Session } from "./LoginScene";
+import { CollisionMap } from "../../../shared/CollisionMap";
+import { TICK_INTERVAL } from "../../../shared/constants";
+import { PlayerInput } from "../../../shared/movement";
+import { StateUpdate } from "../../../shared/delta";
+import { ATTACK_TIMING } from "../../../shared/combat";
+import { ZONES } from "../../../shared/zones";
+import {
+  encodePlayerInput,
+  StateDecoder,
+  WireFormat,
+} from "../../../shared/wire";
+import {
+  EnemyData,
+  GameState,
+  isBinaryMessage,
+  MAX_CHAT_MESSAGE_LENGTH,
+  PlayerState,
+  PROTOCOL_MISMATCH,
+  PROTOCOL_VERSION,
+} from "../../../shared/protocol";
+import { EquipmentSlot } from "../../../shared/items";
+import { AllocatableStat, PlayerStats } from "../../../shared/stats";
+
+// How long the screen takes to fade back in after changing zones, in ms
+const ZONE_FADE_DURATION = 600;
 
 export class MainScene extends Phaser.Scene {
-  private socket: Socket;
-  private playerId: string;
-  private player!: Player;
+  private socket: GameSocket;
+  private playerId!: string;
+  private player?: LocalPlayer;
   private players: { [key: string]: Player } = {};
   private enemies: { [key: string]: Enemy } = {};
+  private drops: { [key: string]: ItemDrop } = {};
   private cursors!: Phaser.Types.Input.Keyboard.CursorKeys;
   private chatWindow!: HTMLDivElement;
   private chatInput!: HTMLInputElement;
   private currentInputs: { [key: string]: boolean } = {};
+  private collisionMap!: CollisionMap;
+  private inputSequence: number = 0;
+  private inputAccumulator: number = 0;
+  private serverClock: ServerClock = new ServerClock();
+  private lastStateTick: number = -1;
+  private stateReceiver: StateReceiver = new StateReceiver();
+  // How gameState and playerInput are encoded, as agreed with the server
+  private wireFormat: WireFormat = "json";
+  private stateDecoder = new StateDecoder();
   private isCameraTweening: boolean = false;
+  // Our latest stats. They can arrive before our player exists, and the
+  // player is rebuilt on every zone change without them being sent again.
+  private stats?: PlayerStats;
 
-  private map!: Phaser.Tilemaps.Tilemap;
+  private zoneId?: string;
+  private map?: Phaser.Tilemaps.Tilemap;
   private tilesets!: Phaser.Tilemaps.Tileset[];
 
   private tilesetAnimations: {
@@ -53,15 +82,40 @@ export class MainScene extends Phaser.Scene {
 
   constructor() {
     super({ key: "MainScene" });
-    this.playerId = localStorage.getItem("playerId") || this.generateUUID();
-    localStorage.setItem("playerId", this.playerId);
 
-    this.socket = io(
-      import.meta.env.VITE_BACKEND_URL || "http://localhost:3000",
-      {
-        autoConnect: false,
-      }
-    );
+    this.socket = io(BACKEND_URL, {
+      autoConnect: false,
+    });
+  }
+
+  init(session: Session) {
+    this.playerId = session.playerId;
+    // Sent with the handshake; the server checks we speak its protocol,
+    // derives our playerId from the token and picks the first wire format
+    // it supports
+    this.socket.auth = {
+      protocolVersion: PROTOCOL_VERSION,
+      token: session.token,
+      wireFormats: WIRE_FORMAT === "json" ? ["json"] : ["binary", "json"],
+    };
+
+    // The scene instance is reused when we come back from the login screen
+    this.player = undefined;
+    this.zoneId = undefined;
+    this.map = undefined;
+    this.players = {};
+    this.enemies = {};
+    this.drops = {};
+    this.animatedTiles = [];
+    this.isCameraTweening = false;
+    this.inputSequence = 0;
+    this.inputAccumulator = 0;
+    this.serverClock = new ServerClock();
+    this.lastStateTick = -1;
+    this.stateReceiver = new StateReceiver();
+    this.wireFormat = "json";
+    this.stateDecoder = new StateDecoder();
+    this.stats = undefined;
   }
 
   preload() {}
@@ -70,35 +124,84 @@ export class MainScene extends Phaser.Scene {
     this.scene.launch("UIScene");
     this.chatWindow = document.getElementById("chat-window") as HTMLDivElement;
     this.chatInput = document.getElementById("chat-input") as HTMLInputElement;
+    // The server turns away anything longer
+    this.chatInput.maxLength = MAX_CHAT_MESSAGE_LENGTH;
 
     if (this.input.keyboard) {
       this.cursors = this.input.keyboard.createCursorKeys();
     }
 
-    this.chatInput.addEventListener("keyup", (event: KeyboardEvent) => {
-      if (event.key === "Enter") {
-        const message = this.chatInput.value;
-        if (message.trim() !== "") {
-          this.socket.emit("chatMessage", message);
-          this.chatInput.value = "";
-        }
-      }
+    // The inventory and character panels ask us to act on their behalf
+    const uiEvents = this.scene.get("UIScene").events;
+    uiEvents.on("dropItem", this.dropItem, this);
+    uiEvents.on("equipItem", this.equipItem, this);
+    uiEvents.on("unequipItem", this.unequipItem, this);
+    uiEvents.on("allocateStat", this.allocateStat, this);
+
+    // Undo DOM listeners and the connection when the scene shuts down
+    const listeners = new AbortController();
+    this.events.once("shutdown", () => {
+      listeners.abort();
+      uiEvents.off("dropItem", this.dropItem, this);
+      uiEvents.off("equipItem", this.equipItem, this);
+      uiEvents.off("unequipItem", this.unequipItem, this);
+      uiEvents.off("allocateStat", this.allocateStat, this);
+      this.scale.off("resize", this.onResize, this);
+      this.socket.off();
+      this.socket.io.off("reconnect_attempt");
+      this.socket.disconnect();
     });
 
-    this.map = this.make.tilemap({ key: "map" });
+    this.chatInput.addEventListener(
+      "keyup",
+      (event: KeyboardEvent) => {
+        if (event.key === "Enter") {
+          const message = this.chatInput.value;
+          if (message.trim() !== "") {
+            this.socket.emit("chatMessage", message);
+            this.chatInput.value = "";
+          }
+        }
+      },
+      { signal: listeners.signal }
+    );
+
+    // The map is built once the server tells us which zone we are in
+    this.setupSocketEvents();
+    this.socket.connect();
+
+    this.cameras.main.setZoom(2.75);
+
+    // Setup resize listener
+    this.setupResizeListener();
+  }
+
+  // Replaces the current tilemap, if any, with the zone's
+  private loadZone(zoneId: string) {
+    if (zoneId === this.zoneId && this.map) return;
+    this.zoneId = zoneId;
+    this.map?.destroy();
+    this.animatedTiles = [];
+    this.tilesetAnimations = {};
+
+    const key = `map_${zoneId}`;
+    const map = this.make.tilemap({ key });
+    this.map = map;
+    // Same collision rules as the server, for predicting our own movement
+    this.collisionMap = new CollisionMap(this.cache.tilemap.get(key).data);
     this.tilesets = [
-      this.map.addTilesetImage("plains", "tiles", 16, 16)!,
-      this.map.addTilesetImage("grass", "grass", 16, 16)!,
-      this.map.addTilesetImage("water-sheet", "water-sheet", 16, 16)!,
-      this.map.addTilesetImage("objects", "objects", 16, 16)!,
+      map.addTilesetImage("plains", "tiles", 16, 16)!,
+      map.addTilesetImage("grass", "grass", 16, 16)!,
+      map.addTilesetImage("water-sheet", "water-sheet", 16, 16)!,
+      map.addTilesetImage("objects", "objects", 16, 16)!,
     ];
 
     // Parse and store animations
-    this.parseTilesetAnimations();
+    this.parseTilesetAnimations(map);
 
     // Create tilemap layers
-    this.map.layers.forEach((layerData) => {
-      const layer = this.map.createLayer(layerData.name, this.tilesets, 0, 0)!;
+    map.layers.forEach((layerData) => {
+      const layer = map.createLayer(layerData.name, this.tilesets, 0, 0)!;
       if (
         layerData.properties?.find((prop: any) => prop.name === "foreground")
       ) {
@@ -110,72 +213,39 @@ export class MainScene extends Phaser.Scene {
     });
 
     // Setup animated tiles after layers are created
-    this.setupAnimatedTiles();
-
-    this.setupSocketEvents();
-    this.socket.connect();
-
-    this.cameras.main.setZoom(2.75);
-
-    // Setup resize listener
-    this.setupResizeListener();
+    this.setupAnimatedTiles(map);
   }
 
   update(_time: number, delta: number) {
     if (this.player) {
-      let direction = this.player.currentDirection;
-      if (this.cursors) {
-        this.currentInputs.left = this.cursors.left.isDown;
-        this.currentInputs.right = this.cursors.right.isDown;
-        this.currentInputs.up = this.cursors.up.isDown;
-        this.currentInputs.down = this.cursors.down.isDown;
-      }
-      const isAttacking = this.input.keyboard?.checkDown(
-        this.cursors.space,
-        250
-      );
-      const isWalking = Object.values(this.currentInputs).some(
-        (value) => value === true
+      // Inputs are sampled at the server tick rate, since the server moves
+      // the player one step per input. Cap the backlog after a stall.
+      this.inputAccumulator = Math.min(
+        this.inputAccumulator + delta,
+        TICK_INTERVAL * 3
       );
-
-      if (isAttacking) {
-        this.socket.emit("playerInput", {
-          ...this.currentInputs,
-          direction,
-          action: "attack",
-        });
-      } else if (isWalking) {
-        // Determine direction based on input
-        if (this.currentInputs.up) {
-          direction = "up";
-        } else if (this.currentInputs.down) {
-          direction = "down";
-        } else if (this.currentInputs.left) {
-          direction = "left";
-        } else if (this.currentInputs.right) {
-          direction = "right";
+      while (this.inputAccumulator >= TICK_INTERVAL) {
+        this.inputAccumulator -= TICK_INTERVAL;
+        if (this.player.isAlive) {
+          this.sendInput(this.player);
         }
-
-        this.socket.emit("playerInput", {
-          ...this.currentInputs,
-          direction,
-          action: "walk",
-        });
-      } else {
-        this.socket.emit("playerInput", {
-          ...this.currentInputs,
-          direction,
-          action: "idle",
-        });
       }
+      this.player.render(this.inputAccumulator / TICK_INTERVAL);
 
       // Check if camera needs to recenter
       this.handleCameraMovement();
     }
 
-    // Update enemies
+    // Remote players and enemies are drawn a little in the past, between
+    // the two snapshots around that time
+    const renderTime = this.getRenderTime();
+    for (const id in this.players) {
+      if (id !== this.playerId) {
+        this.players[id].interpolate(renderTime);
+      }
+    }
     for (const id in this.enemies) {
-      this.enemies[id].interpolate();
+      this.enemies[id].interpolate(renderTime);
     }
 
     // Handle animated tiles
@@ -200,6 +270,66 @@ export class MainScene extends Phaser.Scene {
     });
   }
 
+  // The server time remote entities are currently drawn at
+  private getRenderTime(): number {
+    return this.serverClock.now() - INTERPOLATION.delay;
+  }
+
+  private sendInput(player: LocalPlayer) {
+    let direction = player.currentDirection;
+    if (this.cursors) {
+      this.currentInputs.left = this.cursors.left.isDown;
+      this.currentInputs.right = this.cursors.right.isDown;
+      this.currentInputs.up = this.cursors.up.isDown;
+      this.currentInputs.down = this.cursors.down.isDown;
+    }
+    // The server ignores attacks during the cooldown anyway
+    const isAttacking = this.input.keyboard?.checkDown(
+      this.cursors.space,
+      ATTACK_TIMING.cooldown
+    );
+    const isWalking = Object.values(this.currentInputs).some(
+      (value) => value === true
+    );
+
+    let action: string;
+    if (isAttacking) {
+      action = "attack";
+    } else if (isWalking) {
+      // Determine direction based on input
+      if (this.currentInputs.up) {
+        direction = "up";
+      } else if (this.currentInputs.down) {
+        direction = "down";
+      } else if (this.currentInputs.left) {
+        direction = "left";
+      } else if (this.currentInputs.right) {
+        direction = "right";
+      }
+      action = "walk";
+    } else {
+      action = "idle";
+    }
+
+    const input: PlayerInput = {
+      ...this.currentInputs,
+      seq: ++this.inputSequence,
+      direction,
+      action,
+    };
+    if (isAttacking) {
+      // Lets the server check the swing against what we see
+      input.renderTime = this.getRenderTime();
+    }
+
+    // Predict the result locally, the server confirms it later
+    player.applyInput(input);
+    this.socket.emit(
+      "playerInput",
+      this.wireFormat === "binary" ? encodePlayerInput(input) : input
+    );
+  }
+
   private setupResizeListener() {
     this.scale.on("resize", this.onResize, this);
   }
@@ -253,58 +383,150 @@ export class MainScene extends Phaser.Scene {
     // Attach the connect event listener
     this.socket.on("connect", () => {
       console.log("Connected to server with ID:", this.socket.id);
-      this.socket.emit("init", { playerId: this.playerId });
+      // Everything in view is sent again after a reconnect
+      this.clearEntities();
+      // The server starts every connection with a full state
+      this.stateReceiver.reset();
+      this.lastStateTick = -1;
+      this.socket.emit("init");
     });
 
-    this.socket.on(
-      "init",
-      (data: {
-        playerData: PlayerData;
-        players: { [key: string]: PlayerData };
-        enemies: { [key: string]: EnemyData };
-      }) => {
-        this.updateGameState({ players: data.players, enemies: data.enemies });
+    this.socket.on("connect_error", (err) => {
+      if (err.message === "unauthorized") {
+        this.returnToLogin("Your session has expired, please log in again");
+      } else if (err.message === PROTOCOL_MISMATCH) {
+        // Socket.IO doesn't retry after a handshake error, and retrying
+        // wouldn't help: only loading the new client will
+        this.returnToLogin(
+          "The game has been updated, please refresh the page"
+        );
+      } else {
+        console.warn("Connection failed:", err.message);
       }
-    );
+    });
+
+    this.socket.on("authError", (message) => {
+      this.returnToLogin(message);
+    });
+
+    // Arrives before anything in view, so the map is ready for it
+    this.socket.on("init", (data) => {
+      this.wireFormat = data.wireFormat;
+      this.loadZone(data.playerData.zone);
+    });
 
-    this.socket.on("playerJoined", (playerData: PlayerData) => {
-      if (!this.players[playerData.playerId]) {
-        this.createOtherPlayer(playerData);
+    // We walked through a portal. Everything we knew about belongs to the
+    // old zone; the server sends the new one from scratch.
+    this.socket.on("zoneChanged", (data) => {
+      this.clearEntities();
+      this.stateReceiver.reset();
+      this.lastStateTick = -1;
+      this.loadZone(data.zone);
+
+      this.cameras.main.fadeIn(ZONE_FADE_DURATION, 0, 0, 0);
+      this.showMessage(ZONES[data.zone]?.name ?? data.zone, 1500);
+    });
+
+    // The server only tells us about entities near us. Sprites are created
+    // and destroyed as entities come into and go out of view.
+    this.socket.on("enterView", (entered) => {
+      for (const [id, playerData] of Object.entries(entered.players ?? {})) {
+        if (id === this.playerId) {
+          if (!this.player) this.createPlayer(playerData);
+        } else {
+          this.createOtherPlayer(playerData);
+        }
+      }
+      for (const enemyData of Object.values(entered.enemies ?? {})) {
+        if (!this.enemies[enemyData.id]) {
+          this.createEnemy(enemyData);
+        }
+      }
+      for (const dropData of Object.values(entered.drops ?? {})) {
+        if (!this.drops[dropData.id]) {
+          this.drops[dropData.id] = new ItemDrop(this, dropData);
+        }
+      }
+    });
+
+    this.socket.on("leaveView", (left) => {
+      for (const { id } of left.players ?? []) {
+        if (this.players[id] && id !== this.playerId) {
+          this.players[id].destroy();
+          delete this.players[id];
+        }
+      }
+      for (const { id, despawned } of left.enemies ?? []) {
+        if (this.enemies[id]) {
+          // Only play the death animation if it actually died
+          if (despawned) {
+            this.enemies[id].die();
+          } else {
+            this.enemies[id].destroy();
+          }
+          delete this.enemies[id];
+        }
+      }
+      for (const { id } of left.drops ?? []) {
+        this.drops[id]?.destroy();
+        delete this.drops[id];
       }
     });
 
-    this.socket.on("playerLeft", (leftPlayerId: string) => {
-      if (this.players[leftPlayerId]) {
-        this.players[leftPlayerId].destroy();
-        delete this.players[leftPlayerId];
+    this.socket.on("gameState", (data) => {
+      let update: StateUpdate;
+      try {
+        update = isBinaryMessage(data) ? this.stateDecoder.decode(data) : data;
+      } catch (err) {
+        // Starting over from a full state puts the decoder right again
+        console.warn("Could not decode game state:", err);
+        this.socket.emit("requestFullState");
+        return;
+      }
+      const snapshot = this.stateReceiver.apply(update);
+      if (!snapshot) {
+        // We don't have the baseline this delta builds on
+        this.socket.emit("requestFullState");
+        return;
       }
+
+      // Lets the server diff the next states against this one
+      this.socket.emit("gameStateAck", update.tick);
+      // The server sends every collection of the game state
+      this.updateGameState(
+        update.tick,
+        update.timestamp,
+        snapshot as GameState
+      );
     });
 
-    this.socket.on("gameState", (state: GameState) => {
-      this.updateGameState(state);
+    this.socket.on("levelUp", (data) => {
+      this.applyStats(data.stats, data.statPoints);
+      this.showMessage(`Level ${data.level}!`, 2000);
     });
 
-    this.socket.on("levelUp", () => {
-      const congratsText = this.add
-        .text(
-          Number(this.game.config.width) / 2,
-          Number(this.game.config.height) / 2,
-          "Congratulations! Level Up!",
-          {
-            fontSize: "32px",
-            color: "#fff",
-          }
-        )
-        .setScale(1 / this.cameras.main.zoom)
-        .setScrollFactor(0)
-        .setDepth(5)
-        .setOrigin(0.5);
-      this.time.delayedCall(2000, () => {
-        congratsText.destroy();
-      });
+    this.socket.on("playerDied", (data) => {
+      this.showMessage("You died!", data.respawnIn);
+    });
+
+    // Sent whenever our inventory changes
+    this.socket.on("inventory", (slots) => {
+      const uiScene = this.scene.get("UIScene") as UIScene;
+      uiScene.updateInventory(slots);
     });
 
-    this.socket.on("chatMessage", (data: { id: string; message: string }) => {
+    // Sent whenever what we wear changes
+    this.socket.on("equipment", (equipment) => {
+      const uiScene = this.scene.get("UIScene") as UIScene;
+      uiScene.updateEquipment(equipment);
+    });
+
+    // Sent whenever our level, stat points or equipment change our stats
+    this.socket.on("stats", (data) => {
+      this.applyStats(data.stats, data.statPoints);
+    });
+
+    this.socket.on("chatMessage", (data) => {
       const messageElement = document.createElement("div");
       messageElement.textContent = `Player ${data.id}: ${data.message}`;
       this.chatWindow.appendChild(messageElement);
@@ -315,13 +537,51 @@ export class MainScene extends Phaser.Scene {
       console.warn("Disconnected from server:", reason);
     });
 
-    this.socket.on("reconnect_attempt", (attemptNumber) => {
+    // Reconnection is the manager's job, so it reports attempts itself
+    this.socket.io.on("reconnect_attempt", (attemptNumber) => {
       console.log(`Attempting to reconnect... (${attemptNumber})`);
     });
   }
 
-  private createPlayer(playerData: PlayerData) {
-    this.player = new LocalPlayer(this, this.socket, playerData);
+  private applyStats(stats: PlayerStats, statPoints: number) {
+    this.stats = stats;
+    this.player?.updateStats(stats);
+    const uiScene = this.scene.get("UIScene") as UIScene;
+    uiScene.updateStats(stats, statPoints);
+  }
+
+  // Centered text over the game that goes away after `duration` ms
+  private showMessage(message: string, duration: number) {
+    const text = this.add
+      .text(
+        Number(this.game.config.width) / 2,
+        Number(this.game.config.height) / 2,
+        message,
+        {
+          fontSize: "32px",
+          color: "#fff",
+        }
+      )
+      .setScale(1 / this.cameras.main.zoom)
+      .setScrollFactor(0)
+      .setDepth(5)
+      .setOrigin(0.5);
+    this.time.delayedCall(duration, () => {
+      text.destroy();
+    });
+  }
+
+  private createPlayer(playerData: PlayerState) {
+    this.player = new LocalPlayer(
+      this,
+      this.socket,
+      playerData,
+      this.collisionMap
+    );
+    if (this.stats) {
+      // Predicts with our real move speed from the start
+      this.player.updateStats(this.stats);
+    }
     this.players[this.playerId] = this.player;
 
     // Define deadzone dimensions based on current game size
@@ -336,7 +596,7 @@ export class MainScene extends Phaser.Scene {
     this.cameras.main.centerOn(this.player.sprite.x, this.player.sprite.y);
   }
 
-  private createOtherPlayer(playerData: PlayerData) {
+  private createOtherPlayer(playerData: PlayerState) {
     if (this.players[playerData.playerId]) return;
     const otherPlayer = new Player(this, this.socket, playerData);
     this.players[playerData.playerId] = otherPlayer;
@@ -347,31 +607,30 @@ export class MainScene extends Phaser.Scene {
     this.enemies[enemyData.id] = enemy;
   }
 
-  private updateGameState(state: GameState) {
+  private updateGameState(tick: number, timestamp: number, state: GameState) {
+    // Socket.IO keeps order, but a reconnect can replay an older state
+    if (tick <= this.lastStateTick) return;
+    this.lastStateTick = tick;
+    this.serverClock.sync(timestamp);
+
     // Update Players
     for (const id in state.players) {
       const serverPlayer = state.players[id];
-      if (this.players[id]) {
-        this.players[id].updatePosition(serverPlayer.position);
+      if (id === this.playerId && this.player) {
+        // Our own direction and animation are predicted from local input
+        this.player.reconcile(
+          serverPlayer.position,
+          serverPlayer.lastProcessedInput ?? 0
+        );
+        this.player.updateExpBar(serverPlayer.exp, serverPlayer.level);
+        this.player.updateHealth(serverPlayer.health, serverPlayer.maxHealth);
+        this.player.updateAppearance(serverPlayer.appearance);
+      } else if (this.players[id]) {
+        this.players[id].addSnapshot(timestamp, serverPlayer.position);
         this.players[id].updateDirection(serverPlayer.direction);
         this.players[id].updateAction(serverPlayer.action);
         this.players[id].playAnimation(serverPlayer.action);
-        if (id === this.playerId) {
-          this.players[id].updateExpBar(serverPlayer.exp, serverPlayer.level);
-        }
-      } else {
-        if (id === this.playerId) {
-          this.createPlayer(serverPlayer);
-        } else {
-          this.createOtherPlayer(serverPlayer);
-        }
-      }
-    }
-
-    for (const id in this.players) {
-      if (!state.players[id]) {
-        this.players[id].destroy();
-        delete this.players[id];
+        this.players[id].updateAppearance(serverPlayer.appearance);
       }
     }
 
@@ -379,38 +638,61 @@ export class MainScene extends Phaser.Scene {
     for (const id in state.enemies) {
       const serverEnemy = state.enemies[id];
       if (this.enemies[id]) {
-        this.enemies[id].updatePosition(serverEnemy.position);
+        this.enemies[id].addSnapshot(timestamp, serverEnemy.position);
         this.enemies[id].updateHealth(serverEnemy.health);
         this.enemies[id].playAnimation(
           serverEnemy.action,
           serverEnemy.direction
         );
-      } else {
-        this.createEnemy(serverEnemy);
       }
     }
 
+    // Update Drops, which only ever change in size
+    for (const id in state.drops) {
+      this.drops[id]?.updateQuantity(state.drops[id].quantity);
+    }
+  }
+
+  private dropItem(slot: number) {
+    this.socket.emit("dropItem", { slot });
+  }
+
+  private equipItem(slot: number) {
+    this.socket.emit("equipItem", { slot });
+  }
+
+  private unequipItem(slot: EquipmentSlot) {
+    this.socket.emit("unequipItem", { slot });
+  }
+
+  private allocateStat(stat: AllocatableStat) {
+    this.socket.emit("allocateStat", { stat });
+  }
+
+  private clearEntities() {
+    for (const id in this.players) {
+      this.players[id].destroy();
+    }
     for (const id in this.enemies) {
-      if (!state.enemies[id]) {
-        this.enemies[id].die();
-        delete this.enemies[id];
-      }
+      this.enemies[id].destroy();
+    }
+    for (const id in this.drops) {
+      this.drops[id].destroy();
     }
+    this.player = undefined;
+    this.players = {};
+    this.enemies = {};
+    this.drops = {};
   }
 
-  private generateUUID(): string {
-    return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(
-      /[xy]/g,
-      function (c) {
-        const r = (Math.random() * 16) | 0,
-          v = c == "x" ? r : (r & 0x3) | 0x8;
-        return v.toString(16);
-      }
-    );
+  private returnToLogin(error: string) {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    this.scene.stop("UIScene");
+    this.scene.start("LoginScene", { error });
   }
 
-  private parseTilesetAnimations() {
-    (this.map.tilesets as any).forEach((tileset: any) => {
+  private parseTilesetAnimations(map: Phaser.Tilemaps.Tilemap) {
+    (map.tilesets as any).forEach((tileset: any) => {
       for (const tileId in tileset.tileData) {
         const tile = tileset.tileData[tileId];
 
@@ -428,9 +710,9 @@ export class MainScene extends Phaser.Scene {
     });
   }
 
-  private setupAnimatedTiles() {
-    this.map.layers.forEach((layerData) => {
-      const layer = this.map.getLayer(layerData.name)?.tilemapLayer;
+  private setupAnimatedTiles(map: Phaser.Tilemaps.Tilemap) {
+    map.layers.forEach((layerData) => {
+      const layer = map.getLayer(layerData.name)?.tilemapLayer;
       if (layer) {
         layer.forEachTile((tile) => {
           if (tile && this.tilesetAnimations[tile.index]) {
@@ -1,5 +1,46 @@
 // UIScene.ts
 import Phaser from "phaser";
+import { ITEM_DEFINITIONS } from "../definitions";
+import {
+  createEmptyEquipment,
+  EQUIPMENT_SLOTS,
+  EquipmentSlot,
+  EquippedItems,
+  INVENTORY_SIZE,
+  InventorySlot,
+  InventorySlots,
+} from "../../../shared/items";
+import {
+  ALLOCATABLE_STATS,
+  AllocatableStat,
+  expToNextLevel,
+  PlayerStats,
+  PROGRESSION,
+  STAT_NAMES,
+} from "../../../shared/stats";
+
+// Inventory grid layout
+const INVENTORY_COLUMNS = 5;
+const SLOT_SIZE = 28;
+const SLOT_GAP = 4;
+
+// Character panel layout
+const CHARACTER_PANEL_WIDTH = 150;
+const STAT_ROW_HEIGHT = 16;
+
+const STAT_LABELS: { [stat in keyof PlayerStats]: string } = {
+  maxHealth: "Max HP",
+  attack: "Attack",
+  defense: "Defense",
+  attackRange: "Range",
+  moveSpeed: "Speed",
+};
+
+interface InventorySlotView {
+  background: Phaser.GameObjects.Rectangle;
+  icon: Phaser.GameObjects.Rectangle;
+  quantityText: Phaser.GameObjects.Text;
+}
 
 export class UIScene extends Phaser.Scene {
   private uiContainer!: Phaser.GameObjects.Container;
@@ -7,6 +48,23 @@ export class UIScene extends Phaser.Scene {
   private expBarFill!: Phaser.GameObjects.Rectangle;
   private expLabel!: Phaser.GameObjects.Text;
   private levelText!: Phaser.GameObjects.Text;
+  private healthBarFill!: Phaser.GameObjects.Rectangle;
+  private healthLabel!: Phaser.GameObjects.Text;
+  private inventoryPanel!: Phaser.GameObjects.Container;
+  private inventorySlots: InventorySlotView[] = [];
+  private inventoryTooltip!: Phaser.GameObjects.Text;
+  private inventory: InventorySlots = [];
+  private equipmentSlots!: { [slot in EquipmentSlot]: InventorySlotView };
+  private equipment: EquippedItems = createEmptyEquipment();
+  private statsText!: Phaser.GameObjects.Text;
+  private characterPanel!: Phaser.GameObjects.Container;
+  private statPointsText!: Phaser.GameObjects.Text;
+  private statValueTexts!: {
+    [stat in keyof PlayerStats]: Phaser.GameObjects.Text;
+  };
+  private allocateButtons!: {
+    [stat in AllocatableStat]: Phaser.GameObjects.Text;
+  };
 
   constructor() {
     super({ key: "UIScene" });
@@ -53,22 +111,327 @@ export class UIScene extends Phaser.Scene {
       .setOrigin(0.5, 0)
       .setScrollFactor(0);
     this.uiContainer.add(this.expLabel);
+
+    // Health Bar, to the right of the EXP bar
+    const healthBarX = levelTextWidth + padding + 200 + padding;
+    const healthBarBackground = this.add
+      .rectangle(healthBarX, 4, 200, 12, 0x808080)
+      .setOrigin(0, 0)
+      .setStrokeStyle(1, 0xffffff);
+    this.uiContainer.add(healthBarBackground);
+
+    this.healthBarFill = this.add
+      .rectangle(healthBarX + 2, 6, 196, 8, 0xff0000)
+      .setOrigin(0, 0);
+    this.uiContainer.add(this.healthBarFill);
+
+    this.healthLabel = this.add
+      .text(healthBarX + 100, 22, "HP", {
+        fontSize: "10px",
+        color: "#ffffff",
+        fontStyle: "bold",
+        padding: { x: 5, y: 0 },
+      })
+      .setOrigin(0.5, 0)
+      .setScrollFactor(0);
+    this.uiContainer.add(this.healthLabel);
+
+    this.createInventoryPanel();
+    this.createCharacterPanel();
+  }
+
+  // Equipment and a grid of inventory slots, toggled with I. Clicking an
+  // item equips or unequips it, right-clicking an inventory slot drops it.
+  private createInventoryPanel() {
+    const rows = Math.ceil(INVENTORY_SIZE / INVENTORY_COLUMNS);
+    const width = INVENTORY_COLUMNS * (SLOT_SIZE + SLOT_GAP) + SLOT_GAP;
+    const equipmentTop = SLOT_GAP + 12; // below the slot labels
+    const statsTop = equipmentTop + SLOT_SIZE + SLOT_GAP;
+    const gridTop = statsTop + 14 + SLOT_GAP;
+    const height = gridTop + rows * (SLOT_SIZE + SLOT_GAP) + 30;
+
+    this.inventoryPanel = this.add
+      .container(10, 50)
+      .setScrollFactor(0)
+      .setVisible(false);
+    this.inventoryPanel.add(
+      this.add
+        .rectangle(0, 0, width, height, 0x000000, 0.7)
+        .setOrigin(0, 0)
+        .setStrokeStyle(1, 0xffffff)
+    );
+    this.inventoryPanel.add(
+      this.add.text(
+        SLOT_GAP,
+        height - 26,
+        "Inventory (I)\nClick to equip, right-click to drop",
+        {
+          fontSize: "10px",
+          color: "#ffffff",
+        }
+      )
+    );
+
+    this.equipmentSlots = {} as { [slot in EquipmentSlot]: InventorySlotView };
+    EQUIPMENT_SLOTS.forEach((slot, index) => {
+      const x = SLOT_GAP + index * (SLOT_SIZE + SLOT_GAP) * 1.5;
+      this.inventoryPanel.add(
+        this.add.text(x, SLOT_GAP, slot, { fontSize: "9px", color: "#cccccc" })
+      );
+      const view = this.createSlotView(x, equipmentTop);
+      view.background.on("pointerover", () =>
+        this.showItemTooltip(this.equipment[slot], view.background)
+      );
+      view.background.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+        if (!this.inventoryPanel.visible) return;
+        if (pointer.leftButtonDown() && this.equipment[slot]) {
+          this.events.emit("unequipItem", slot);
+        }
+      });
+      this.equipmentSlots[slot] = view;
+    });
+
+    this.statsText = this.add.text(SLOT_GAP, statsTop, "", {
+      fontSize: "10px",
+      color: "#ffffff",
+    });
+    this.inventoryPanel.add(this.statsText);
+
+    this.inventorySlots = [];
+    for (let index = 0; index < INVENTORY_SIZE; index++) {
+      const x = SLOT_GAP + (index % INVENTORY_COLUMNS) * (SLOT_SIZE + SLOT_GAP);
+      const y =
+        gridTop +
+        Math.floor(index / INVENTORY_COLUMNS) * (SLOT_SIZE + SLOT_GAP);
+
+      const view = this.createSlotView(x, y);
+      view.background.on("pointerover", () =>
+        this.showItemTooltip(this.inventory[index]?.itemId, view.background)
+      );
+      view.background.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+        const slot = this.inventory[index];
+        if (!this.inventoryPanel.visible || !slot) return;
+        // MainScene owns the socket
+        if (pointer.rightButtonDown()) {
+          this.events.emit("dropItem", index);
+        } else if (ITEM_DEFINITIONS[slot.itemId]?.equipment) {
+          this.events.emit("equipItem", index);
+        }
+      });
+      this.inventorySlots.push(view);
+    }
+
+    this.inventoryTooltip = this.add
+      .text(0, 0, "", {
+        fontSize: "10px",
+        color: "#ffffff",
+        backgroundColor: "#000000",
+        padding: { x: 4, y: 2 },
+      })
+      .setDepth(1)
+      .setVisible(false);
+
+    this.input.mouse?.disableContextMenu();
+    this.input.keyboard?.on("keydown-I", () => {
+      // Typing in the chat box shouldn't toggle the panel
+      if (document.activeElement instanceof HTMLInputElement) return;
+      this.inventoryPanel.setVisible(!this.inventoryPanel.visible);
+      this.inventoryTooltip.setVisible(false);
+    });
+  }
+
+  // Effective stats and buttons to spend stat points, toggled with C
+  private createCharacterPanel() {
+    const statsTop = 20;
+    const pointsTop = statsTop + STAT_NAMES.length * STAT_ROW_HEIGHT + 4;
+    const height = pointsTop + 30;
+
+    this.characterPanel = this.add
+      .container(
+        10 + INVENTORY_COLUMNS * (SLOT_SIZE + SLOT_GAP) + SLOT_GAP + 10,
+        50
+      )
+      .setScrollFactor(0)
+      .setVisible(false);
+    this.characterPanel.add([
+      this.add
+        .rectangle(0, 0, CHARACTER_PANEL_WIDTH, height, 0x000000, 0.7)
+        .setOrigin(0, 0)
+        .setStrokeStyle(1, 0xffffff),
+      this.add.text(SLOT_GAP, SLOT_GAP, "Character (C)", {
+        fontSize: "10px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      }),
+    ]);
+
+    this.statValueTexts = {} as typeof this.statValueTexts;
+    this.allocateButtons = {} as typeof this.allocateButtons;
+    STAT_NAMES.forEach((stat, index) => {
+      const y = statsTop + index * STAT_ROW_HEIGHT;
+      const label = this.add.text(SLOT_GAP, y, STAT_LABELS[stat], {
+        fontSize: "10px",
+        color: "#cccccc",
+      });
+      this.statValueTexts[stat] = this.add.text(80, y, "", {
+        fontSize: "10px",
+        color: "#ffffff",
+      });
+      this.characterPanel.add([label, this.statValueTexts[stat]]);
+    });
+
+    ALLOCATABLE_STATS.forEach((stat) => {
+      const y = statsTop + STAT_NAMES.indexOf(stat) * STAT_ROW_HEIGHT;
+      const button = this.add
+        .text(CHARACTER_PANEL_WIDTH - SLOT_GAP, y, "+", {
+          fontSize: "10px",
+          color: "#ffffff",
+          backgroundColor: "#336633",
+          padding: { x: 3, y: 0 },
+        })
+        .setOrigin(1, 0)
+        .setInteractive({ useHandCursor: true })
+        .setVisible(false);
+      button.on("pointerdown", () => {
+        // MainScene owns the socket
+        if (this.characterPanel.visible) {
+          this.events.emit("allocateStat", stat);
+        }
+      });
+      this.allocateButtons[stat] = button;
+      this.characterPanel.add(button);
+    });
+
+    this.statPointsText = this.add.text(SLOT_GAP, pointsTop, "", {
+      fontSize: "10px",
+      color: "#ffff66",
+    });
+    this.characterPanel.add(this.statPointsText);
+
+    this.input.keyboard?.on("keydown-C", () => {
+      if (document.activeElement instanceof HTMLInputElement) return;
+      this.characterPanel.setVisible(!this.characterPanel.visible);
+    });
+  }
+
+  private createSlotView(x: number, y: number): InventorySlotView {
+    const background = this.add
+      .rectangle(x, y, SLOT_SIZE, SLOT_SIZE, 0x333333)
+      .setOrigin(0, 0)
+      .setStrokeStyle(1, 0x808080)
+      .setInteractive();
+    const icon = this.add
+      .rectangle(x + SLOT_SIZE / 2, y + SLOT_SIZE / 2, 16, 16, 0xffffff)
+      .setStrokeStyle(1, 0x000000)
+      .setVisible(false);
+    const quantityText = this.add
+      .text(x + SLOT_SIZE - 1, y + SLOT_SIZE - 1, "", {
+        fontSize: "10px",
+        color: "#ffffff",
+        fontStyle: "bold",
+      })
+      .setOrigin(1, 1);
+
+    background.on("pointerout", () => this.inventoryTooltip.setVisible(false));
+    this.inventoryPanel.add([background, icon, quantityText]);
+    return { background, icon, quantityText };
+  }
+
+  private showItemTooltip(
+    itemId: string | null | undefined,
+    background: Phaser.GameObjects.Rectangle
+  ) {
+    if (!this.inventoryPanel.visible) return;
+    const item = itemId ? ITEM_DEFINITIONS[itemId] : undefined;
+    if (!item) return;
+
+    this.inventoryTooltip
+      .setText(
+        item.description ? `${item.name}\n${item.description}` : item.name
+      )
+      .setPosition(
+        this.inventoryPanel.x + background.x + SLOT_SIZE + 2,
+        this.inventoryPanel.y + background.y
+      )
+      .setVisible(true);
+  }
+
+  // Shows an item, or nothing, in a slot
+  private renderSlot(view: InventorySlotView, slot: InventorySlot | null) {
+    const item = slot ? ITEM_DEFINITIONS[slot.itemId] : undefined;
+    view.icon.setVisible(!!item);
+    if (item) {
+      view.icon.setFillStyle(
+        Phaser.Display.Color.HexStringToColor(item.color).color
+      );
+    }
+    view.quantityText.setText(
+      slot && slot.quantity > 1 ? `${slot.quantity}` : ""
+    );
   }
 
   updateExpBar(exp: number, level: number): void {
     // Update Level Text
     this.levelText.setText(`Level: ${level}`);
 
+    // Nothing left to earn at the level cap
+    if (level >= PROGRESSION.maxLevel) {
+      this.expBarFill.width = 196;
+      this.expLabel.setText("MAX");
+      return;
+    }
+
     // Calculate EXP percentage
-    const expPercentage = Math.min(
-      Math.floor((exp / (level * 100)) * 100),
-      100
-    );
+    const expNeeded = expToNextLevel(level);
+    const expPercentage = Math.min(Math.floor((exp / expNeeded) * 100), 100);
 
     // Update EXP Fill Width
     this.expBarFill.width = 196 * (expPercentage / 100);
 
     // Update EXP Label
-    this.expLabel.setText(`${exp}/${level * 100} (${expPercentage}%)`);
+    this.expLabel.setText(`${exp}/${expNeeded} (${expPercentage}%)`);
+  }
+
+  updateHealthBar(health: number, maxHealth: number): void {
+    const healthRatio = Phaser.Math.Clamp(health / maxHealth, 0, 1);
+    this.healthBarFill.width = 196 * healthRatio;
+    this.healthLabel.setText(`HP ${health}/${maxHealth}`);
+  }
+
+  updateInventory(slots: InventorySlots): void {
+    this.inventory = slots;
+    this.inventorySlots.forEach((view, index) =>
+      this.renderSlot(view, slots[index])
+    );
+    this.inventoryTooltip.setVisible(false);
+  }
+
+  updateEquipment(equipment: EquippedItems): void {
+    this.equipment = equipment;
+    for (const slot of EQUIPMENT_SLOTS) {
+      const itemId = equipment[slot];
+      this.renderSlot(
+        this.equipmentSlots[slot],
+        itemId ? { itemId, quantity: 1 } : null
+      );
+    }
+    this.inventoryTooltip.setVisible(false);
+  }
+
+  updateStats(stats: PlayerStats, statPoints: number): void {
+    this.statsText.setText(
+      `ATK ${stats.attack}  DEF ${stats.defense}  ` +
+        `RNG ${stats.attackRange}  SPD ${stats.moveSpeed}`
+    );
+
+    for (const stat of STAT_NAMES) {
+      this.statValueTexts[stat].setText(`${stats[stat]}`);
+    }
+    for (const stat of ALLOCATABLE_STATS) {
+      this.allocateButtons[stat].setVisible(statPoints > 0);
+    }
+    this.statPointsText.setText(
+      statPoints > 0 ? `${statPoints} stat points to spend` : ""
+    );
   }
 }
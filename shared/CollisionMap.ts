@@ -0,0 +1,355 @@
+import { Box } from "./collision";
+import { Position } from "./movement";
+import { getProperty, Tile, TiledObject, Tilemap } from "./tiled";
+
+// Flags Tiled stores in the high bits of a tile's global id
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const FLIPPED_DIAGONALLY = 0x20000000;
+const ROTATED_HEXAGONAL = 0x10000000;
+const GID_MASK = ~(
+  FLIPPED_HORIZONTALLY |
+  FLIPPED_VERTICALLY |
+  FLIPPED_DIAGONALLY |
+  ROTATED_HEXAGONAL
+);
+
+// Ellipses are tested as polygons with this many sides
+const ELLIPSE_SEGMENTS = 16;
+
+// A collision shape in pixels relative to the tile's top left corner
+type CollisionShape =
+  ({ kind: "rect" } & Box) | { kind: "polygon"; points: Position[] };
+
+// A tile either blocks all of itself or only the shapes drawn on it
+type TileCollision = "full" | CollisionShape[];
+
+/**
+ * Tile collision built from a Tiled map. The server uses it through
+ * MapLoader and the client uses it for prediction, so both agree on what
+ * blocks movement.
+ *
+ * Tiles with collision shapes drawn in Tiled's collision editor only block
+ * inside those shapes, so fences, tree trunks and shorelines block what is
+ * drawn rather than the whole tile. Tiles marked "collideable" without any
+ * shapes block the whole tile. Tiles are assumed to be the map's tile size.
+ */
+export class CollisionMap {
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  private map: Tilemap;
+  // By global tile id, without flip flags
+  private tileCollisions: Map<number, TileCollision>;
+
+  constructor(map: Tilemap) {
+    this.map = map;
+    this.tileWidth = map.tilewidth;
+    this.tileHeight = map.tileheight;
+    this.tileCollisions = this.findTileCollisions();
+  }
+
+  private findTileCollisions(): Map<number, TileCollision> {
+    const tileCollisions = new Map<number, TileCollision>();
+    for (const tileset of this.map.tilesets) {
+      for (const tile of tileset.tiles || []) {
+        const collision = getTileCollision(tile);
+        if (collision) {
+          tileCollisions.set(tile.id + tileset.firstgid, collision);
+        }
+      }
+    }
+    return tileCollisions;
+  }
+
+  /**
+   * Whether anything in the tile blocks movement. Tiles that are only partly
+   * blocked count as blocked, which is what pathfinding wants.
+   */
+  isTileBlocked(x: number, y: number): boolean {
+    for (const layer of this.map.layers) {
+      if (layer.type !== "tilelayer") continue;
+
+      if (x < 0 || x >= layer.width || y < 0 || y >= layer.height) {
+        return true; // Out of bounds tiles are blocked
+      }
+
+      const gid = layer.data[y * layer.width + x] & GID_MASK;
+      if (this.tileCollisions.has(gid)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Whether a point in world (pixel) coordinates is inside anything solid
+  isPointBlocked(x: number, y: number): boolean {
+    const tileX = Math.floor(x / this.tileWidth);
+    const tileY = Math.floor(y / this.tileHeight);
+
+    for (const layer of this.map.layers) {
+      if (layer.type !== "tilelayer") continue;
+
+      if (
+        tileX < 0 ||
+        tileX >= layer.width ||
+        tileY < 0 ||
+        tileY >= layer.height
+      ) {
+        return true; // Out of bounds tiles are blocked
+      }
+
+      const gid = layer.data[tileY * layer.width + tileX];
+      const collision = this.tileCollisions.get(gid & GID_MASK);
+      if (!collision) continue;
+      if (collision === "full") return true;
+
+      const local = this.toTileLocal(
+        x - tileX * this.tileWidth,
+        y - tileY * this.tileHeight,
+        gid
+      );
+      if (collision.some((shape) => isInShape(local, shape))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Whether a box in world (pixel) coordinates overlaps anything solid.
+  // Touching something without overlapping it doesn't count.
+  isBoxBlocked(box: Box): boolean {
+    const left = Math.floor(box.x / this.tileWidth);
+    const top = Math.floor(box.y / this.tileHeight);
+    // The box's right and bottom edges are exclusive
+    const right = Math.ceil((box.x + box.width) / this.tileWidth) - 1;
+    const bottom = Math.ceil((box.y + box.height) / this.tileHeight) - 1;
+
+    for (let tileY = top; tileY <= bottom; tileY++) {
+      for (let tileX = left; tileX <= right; tileX++) {
+        if (this.isBoxBlockedInTile(box, tileX, tileY)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private isBoxBlockedInTile(box: Box, tileX: number, tileY: number): boolean {
+    for (const layer of this.map.layers) {
+      if (layer.type !== "tilelayer") continue;
+
+      if (
+        tileX < 0 ||
+        tileX >= layer.width ||
+        tileY < 0 ||
+        tileY >= layer.height
+      ) {
+        return true; // Out of bounds tiles are blocked
+      }
+
+      const gid = layer.data[tileY * layer.width + tileX];
+      const collision = this.tileCollisions.get(gid & GID_MASK);
+      if (!collision) continue;
+      if (collision === "full") return true;
+
+      // Flips keep boxes axis-aligned, so two opposite corners are enough
+      const originX = tileX * this.tileWidth;
+      const originY = tileY * this.tileHeight;
+      const a = this.toTileLocal(box.x - originX, box.y - originY, gid);
+      const b = this.toTileLocal(
+        box.x + box.width - originX,
+        box.y + box.height - originY,
+        gid
+      );
+      const local = {
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(a.x - b.x),
+        height: Math.abs(a.y - b.y),
+      };
+      if (collision.some((shape) => overlapsShape(local, shape))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Undoes a placed tile's flips, so the point can be tested against the
+  // shapes as drawn in the tileset. Tiled flips diagonally first, then
+  // horizontally, then vertically; this undoes them in reverse.
+  private toTileLocal(x: number, y: number, gid: number): Position {
+    if (gid & FLIPPED_VERTICALLY) y = this.tileHeight - y;
+    if (gid & FLIPPED_HORIZONTALLY) x = this.tileWidth - x;
+    if (gid & FLIPPED_DIAGONALLY) [x, y] = [y, x];
+    return { x, y };
+  }
+}
+
+function getTileCollision(tile: Tile): TileCollision | null {
+  const objects = tile.objectgroup?.objects ?? [];
+  const shapes = objects
+    .map(toCollisionShape)
+    .filter((shape): shape is CollisionShape => shape !== null);
+  if (shapes.length > 0) {
+    return shapes;
+  }
+  return getProperty(tile, "collideable", false) ? "full" : null;
+}
+
+// Points and polylines have no area, so they don't block anything
+function toCollisionShape(object: TiledObject): CollisionShape | null {
+  if (object.point || object.polyline) return null;
+
+  if (object.polygon) {
+    return {
+      kind: "polygon",
+      points: object.polygon.map((point) =>
+        rotate(object.x + point.x, object.y + point.y, object)
+      ),
+    };
+  }
+  if (object.ellipse) {
+    const radiusX = object.width / 2;
+    const radiusY = object.height / 2;
+    const points: Position[] = [];
+    for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+      const angle = (i / ELLIPSE_SEGMENTS) * 2 * Math.PI;
+      points.push(
+        rotate(
+          object.x + radiusX + Math.cos(angle) * radiusX,
+          object.y + radiusY + Math.sin(angle) * radiusY,
+          object
+        )
+      );
+    }
+    return { kind: "polygon", points };
+  }
+  if (object.rotation) {
+    // A rotated rectangle is tested as the polygon it turns into
+    const { x, y, width, height } = object;
+    return {
+      kind: "polygon",
+      points: [
+        rotate(x, y, object),
+        rotate(x + width, y, object),
+        rotate(x + width, y + height, object),
+        rotate(x, y + height, object),
+      ],
+    };
+  }
+  return {
+    kind: "rect",
+    x: object.x,
+    y: object.y,
+    width: object.width,
+    height: object.height,
+  };
+}
+
+// Tiled rotates objects clockwise, in degrees, around their x and y
+function rotate(x: number, y: number, object: TiledObject): Position {
+  if (!object.rotation) return { x, y };
+  const angle = (object.rotation * Math.PI) / 180;
+  const dx = x - object.x;
+  const dy = y - object.y;
+  return {
+    x: object.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: object.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+  };
+}
+
+function isInShape(point: Position, shape: CollisionShape): boolean {
+  switch (shape.kind) {
+    case "rect":
+      return (
+        point.x >= shape.x &&
+        point.x < shape.x + shape.width &&
+        point.y >= shape.y &&
+        point.y < shape.y + shape.height
+      );
+    case "polygon":
+      return isInPolygon(point, shape.points);
+  }
+}
+
+// Even-odd ray casting
+function isInPolygon(point: Position, points: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function overlapsShape(box: Box, shape: CollisionShape): boolean {
+  switch (shape.kind) {
+    case "rect":
+      return (
+        box.x < shape.x + shape.width &&
+        shape.x < box.x + box.width &&
+        box.y < shape.y + shape.height &&
+        shape.y < box.y + box.height
+      );
+    case "polygon":
+      return overlapsPolygon(box, shape.points);
+  }
+}
+
+// The box overlaps the polygon if it's inside it or one of the polygon's
+// edges passes through the box's interior
+function overlapsPolygon(box: Box, points: Position[]): boolean {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  if (isInPolygon(center, points)) return true;
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    if (crossesBox(points[j], points[i], box)) return true;
+  }
+  return false;
+}
+
+// Whether the segment from `a` to `b` passes through the box's interior.
+// Clips the segment to the box (Liang-Barsky) and checks that what is left
+// isn't just running along an edge.
+function crossesBox(a: Position, b: Position, box: Box): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let enter = 0;
+  let exit = 1;
+  const clips: [number, number][] = [
+    [-dx, a.x - box.x],
+    [dx, box.x + box.width - a.x],
+    [-dy, a.y - box.y],
+    [dy, box.y + box.height - a.y],
+  ];
+  for (const [p, q] of clips) {
+    if (p === 0) {
+      if (q < 0) return false; // Parallel to and outside this edge
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      enter = Math.max(enter, t);
+    } else {
+      exit = Math.min(exit, t);
+    }
+    if (enter > exit) return false;
+  }
+
+  const t = (enter + exit) / 2;
+  const x = a.x + dx * t;
+  const y = a.y + dy * t;
+  return (
+    exit > enter &&
+    x > box.x &&
+    x < box.x + box.width &&
+    y > box.y &&
+    y < box.y + box.height
+  );
+}
@@ -0,0 +1,236 @@
+import { Position } from "./movement";
+
+/**
+ * An entity's collision body: a box centered `offsetX`, `offsetY` away from
+ * its position. Bodies cover the feet rather than the whole sprite, so the
+ * top of a sprite can overlap the wall behind it the way it looks like it
+ * should in a top down view.
+ */
+export interface Body {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// An axis-aligned box in world (pixel) coordinates, from its top left corner
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BoxCollision {
+  isBoxBlocked(box: Box): boolean;
+}
+
+// The player's body; enemy bodies are part of each enemy type's definition
+export const PLAYER_BODY: Body = {
+  width: 10,
+  height: 6,
+  offsetX: 0,
+  offsetY: 15,
+};
+
+// How close to the point of contact a blocked sweep stops, in pixels
+const CONTACT_PRECISION = 1 / 256;
+// Size of the cells a stuck body is split into to measure how deep it is
+// stuck, and how far away to look for a way out when it is stuck all over
+const OVERLAP_CELL_SIZE = 2;
+const MAX_ESCAPE_DISTANCE = 64;
+
+export function bodyBox(position: Position, body: Body): Box {
+  return {
+    x: position.x + body.offsetX - body.width / 2,
+    y: position.y + body.offsetY - body.height / 2,
+    width: body.width,
+    height: body.height,
+  };
+}
+
+/**
+ * Moves a body by `dx`, `dy`, one axis at a time so that movement blocked
+ * on one axis still slides along the other. Each axis is swept, so the body
+ * stops flush against whatever is in the way instead of stopping short or
+ * passing through. Returns `position` itself if the body didn't move.
+ */
+export function moveBody(
+  position: Position,
+  dx: number,
+  dy: number,
+  body: Body,
+  collision: BoxCollision
+): Position {
+  if (collision.isBoxBlocked(bodyBox(position, body))) {
+    // Already overlapping something, e.g. after a respawn onto a blocked
+    // spot. Sweeping would trap it, so it may move as long as it doesn't
+    // sink any deeper, which lets it work its way out but not through.
+    return moveOverlapping(position, dx, dy, body, collision);
+  }
+
+  const x = sweep(
+    position.x,
+    dx,
+    (x) => ({ x, y: position.y }),
+    body,
+    collision
+  );
+  const y = sweep(position.y, dy, (y) => ({ x, y }), body, collision);
+  if (x === position.x && y === position.y) {
+    return position;
+  }
+  return { x, y };
+}
+
+// Moves a body that is stuck in something one axis at a time, skipping any
+// axis that would sink it deeper
+function moveOverlapping(
+  position: Position,
+  dx: number,
+  dy: number,
+  body: Body,
+  collision: BoxCollision
+): Position {
+  let { x, y } = position;
+  if (dx !== 0 && !isDeeper({ x: x + dx, y }, { x, y }, body, collision)) {
+    x += dx;
+  }
+  if (dy !== 0 && !isDeeper({ x, y: y + dy }, { x, y }, body, collision)) {
+    y += dy;
+  }
+  if (x === position.x && y === position.y) {
+    return position;
+  }
+  return { x, y };
+}
+
+/**
+ * Whether a stuck body would be stuck deeper at `to` than at `from`, one axis
+ * away. A body that is partly blocked may move as long as no more of it is.
+ * One that is blocked all over, e.g. off the edge of the map, may only move
+ * the shortest way out along that axis.
+ */
+function isDeeper(
+  to: Position,
+  from: Position,
+  body: Body,
+  collision: BoxCollision
+): boolean {
+  const fromBox = bodyBox(from, body);
+  const toBlocked = countBlockedCells(bodyBox(to, body), collision);
+  const fromBlocked = countBlockedCells(fromBox, collision);
+  if (toBlocked !== fromBlocked) return toBlocked > fromBlocked;
+  if (fromBlocked < countCells(fromBox)) return false;
+
+  const directionX = Math.sign(to.x - from.x);
+  const directionY = Math.sign(to.y - from.y);
+  const ahead = escapeDistance(from, directionX, directionY, body, collision);
+  const behind = escapeDistance(
+    from,
+    -directionX,
+    -directionY,
+    body,
+    collision
+  );
+  return ahead === Infinity || ahead > behind;
+}
+
+// How far a body has to move in a direction to be free, or Infinity if it
+// isn't within MAX_ESCAPE_DISTANCE
+function escapeDistance(
+  position: Position,
+  directionX: number,
+  directionY: number,
+  body: Body,
+  collision: BoxCollision
+): number {
+  for (
+    let distance = OVERLAP_CELL_SIZE;
+    distance <= MAX_ESCAPE_DISTANCE;
+    distance += OVERLAP_CELL_SIZE
+  ) {
+    const moved = {
+      x: position.x + directionX * distance,
+      y: position.y + directionY * distance,
+    };
+    if (!collision.isBoxBlocked(bodyBox(moved, body))) return distance;
+  }
+  return Infinity;
+}
+
+function countCells(box: Box): number {
+  return (
+    Math.ceil(box.width / OVERLAP_CELL_SIZE) *
+    Math.ceil(box.height / OVERLAP_CELL_SIZE)
+  );
+}
+
+// How much of the box is inside something, as the number of cells of about
+// OVERLAP_CELL_SIZE it splits into that are blocked
+function countBlockedCells(box: Box, collision: BoxCollision): number {
+  const columns = Math.ceil(box.width / OVERLAP_CELL_SIZE);
+  const rows = Math.ceil(box.height / OVERLAP_CELL_SIZE);
+  const width = box.width / columns;
+  const height = box.height / rows;
+  let blocked = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const cell = {
+        x: box.x + column * width,
+        y: box.y + row * height,
+        width,
+        height,
+      };
+      if (collision.isBoxBlocked(cell)) blocked++;
+    }
+  }
+  return blocked;
+}
+
+// The smallest box that holds both boxes
+function boundingBox(a: Box, b: Box): Box {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// How far along one axis a body gets from `start` towards `start + delta`.
+// `at` places the body at a coordinate on that axis. Moving along one axis,
+// the body passes through exactly the box between where it starts and where
+// it ends, so testing that box can't skip anything however thin. A clear
+// move takes one test; a blocked one is narrowed down to the point of
+// contact, since the box only gets more blocked the further it reaches.
+function sweep(
+  start: number,
+  delta: number,
+  at: (value: number) => Position,
+  body: Body,
+  collision: BoxCollision
+): number {
+  if (delta === 0) return start;
+
+  const startBox = bodyBox(at(start), body);
+  const isBlocked = (distance: number) =>
+    collision.isBoxBlocked(
+      boundingBox(startBox, bodyBox(at(start + distance), body))
+    );
+  if (!isBlocked(delta)) return start + delta;
+
+  let free = 0;
+  let blocked = delta;
+  while (Math.abs(blocked - free) > CONTACT_PRECISION) {
+    const middle = (free + blocked) / 2;
+    if (isBlocked(middle)) {
+      blocked = middle;
+    } else {
+      free = middle;
+    }
+  }
+  return start + free;
+}
@@ -0,0 +1,66 @@
+import { Position } from "./movement";
+
+// The player's attack animation, which attack timing is measured against
+export const ATTACK_ANIMATION = {
+  frameRate: 12,
+};
+
+export const ATTACK_TIMING = {
+  // Frames of the attack animation during which the swing can hit
+  activeFrames: { first: 1, last: 2 },
+  // Time from the start of one swing to the earliest next one, in ms
+  cooldown: 400,
+};
+
+// Hits are checked against where targets were when the attacker saw them,
+// at most this far in the past, in ms
+export const MAX_ATTACK_REWIND = 250;
+
+/**
+ * The area a swing covers in front of the attacker. How far it reaches is
+ * the attacker's attackRange stat; the weapon decides how wide it is.
+ */
+export interface AttackHitbox {
+  arc: number; // degrees, centered on the facing direction
+}
+
+export const UNARMED_HITBOX: AttackHitbox = { arc: 90 };
+
+// Anything this close is hit whichever way the attacker faces
+const POINT_BLANK_RANGE = 8;
+
+const DIRECTION_ANGLES: { [direction: string]: number } = {
+  right: 0,
+  down: Math.PI / 2,
+  left: Math.PI,
+  up: -Math.PI / 2,
+};
+
+// When in a swing hits land, in ms since the swing started: [start, end)
+export function attackActiveWindow(): { start: number; end: number } {
+  const frameDuration = 1000 / ATTACK_ANIMATION.frameRate;
+  const { first, last } = ATTACK_TIMING.activeFrames;
+  return { start: first * frameDuration, end: (last + 1) * frameDuration };
+}
+
+// Whether a swing from `origin` facing `direction` reaches `target`
+export function isInAttackArc(
+  origin: Position,
+  direction: string,
+  target: Position,
+  range: number,
+  hitbox: AttackHitbox
+): boolean {
+  const dx = target.x - origin.x;
+  const dy = target.y - origin.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance > range) return false;
+  if (distance <= POINT_BLANK_RANGE) return true;
+
+  const facing = DIRECTION_ANGLES[direction] ?? DIRECTION_ANGLES.down;
+  let offset = Math.abs(Math.atan2(dy, dx) - facing);
+  if (offset > Math.PI) {
+    offset = 2 * Math.PI - offset;
+  }
+  return offset <= (hitbox.arc * Math.PI) / 360;
+}
@@ -0,0 +1,2 @@
+export const TICK_RATE = 20; // Server updates 20 times per second
+export const TICK_INTERVAL = 1000 / TICK_RATE;
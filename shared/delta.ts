@@ -0,0 +1,125 @@
+// Baseline/delta encoding for game state broadcasts. The server diffs each
+// snapshot against the last one a client acknowledged; the client applies
+// the delta to its own copy of that baseline. Both sides share this code so
+// they always agree on what a delta means.
+
+export type EntityMap = { [id: string]: object };
+
+// A snapshot is a set of named entity collections, e.g. players and enemies
+export type Snapshot = { [collection: string]: EntityMap };
+
+export interface EntityChanges {
+  // Added entities in full, changed entities with only the changed fields
+  updated?: { [id: string]: object };
+  removed?: string[];
+}
+
+export interface StateUpdate {
+  tick: number;
+  timestamp: number;
+  // Tick of the snapshot the changes apply to, or null for a full state
+  baseTick: number | null;
+  changes: { [collection: string]: EntityChanges };
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  if (aKeys.length !== Object.keys(b).length) return false;
+  return aKeys.every((key) =>
+    valuesEqual(
+      (a as { [key: string]: unknown })[key],
+      (b as { [key: string]: unknown })[key]
+    )
+  );
+}
+
+function diffEntity(base: object, next: object): object | null {
+  const changed: { [field: string]: unknown } = {};
+  let hasChanges = false;
+  for (const [field, value] of Object.entries(next)) {
+    if (!valuesEqual((base as { [field: string]: unknown })[field], value)) {
+      changed[field] = value;
+      hasChanges = true;
+    }
+  }
+  return hasChanges ? changed : null;
+}
+
+/**
+ * Changes needed to turn `base` into `next`. Without a base every entity is
+ * sent in full.
+ */
+export function diffSnapshots(
+  base: Snapshot | undefined,
+  next: Snapshot
+): StateUpdate["changes"] {
+  const changes: StateUpdate["changes"] = {};
+
+  for (const collection of Object.keys(next)) {
+    const baseEntities = base?.[collection] ?? {};
+    const nextEntities = next[collection];
+    const updated: { [id: string]: object } = {};
+    const removed: string[] = [];
+
+    for (const id of Object.keys(nextEntities)) {
+      const baseEntity = baseEntities[id];
+      if (!baseEntity) {
+        updated[id] = nextEntities[id];
+        continue;
+      }
+      const entityChanges = diffEntity(baseEntity, nextEntities[id]);
+      if (entityChanges) {
+        updated[id] = entityChanges;
+      }
+    }
+
+    for (const id of Object.keys(baseEntities)) {
+      if (!nextEntities[id]) {
+        removed.push(id);
+      }
+    }
+
+    const collectionChanges: EntityChanges = {};
+    if (Object.keys(updated).length > 0) collectionChanges.updated = updated;
+    if (removed.length > 0) collectionChanges.removed = removed;
+    changes[collection] = collectionChanges;
+  }
+
+  return changes;
+}
+
+/**
+ * Applies changes to a baseline snapshot without modifying it, so the
+ * baseline can still be used for later deltas.
+ */
+export function applySnapshotChanges(
+  base: Snapshot | undefined,
+  changes: StateUpdate["changes"]
+): Snapshot {
+  const snapshot: Snapshot = {};
+
+  for (const collection of Object.keys(changes)) {
+    const entities: EntityMap = { ...(base?.[collection] ?? {}) };
+    const { updated = {}, removed = [] } = changes[collection];
+
+    for (const id of Object.keys(updated)) {
+      entities[id] = { ...entities[id], ...updated[id] };
+    }
+    for (const id of removed) {
+      delete entities[id];
+    }
+
+    snapshot[collection] = entities;
+  }
+
+  return snapshot;
+}
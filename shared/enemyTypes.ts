@@ -0,0 +1,167 @@
+import { createChecks } from "./validation";
+import { Body } from "./collision";
+
+/**
+ * Enemy archetypes are plain JSON files in shared/enemies, one per type.
+ * The server reads them for stats and behaviour, the client for sprites and
+ * animations, so a new monster needs no code changes.
+ */
+
+// Actions an enemy can take as part of its behaviour cycle
+export type EnemyCycleAction = "hop" | "longJump" | "idle";
+export type EnemyMovement = "hop" | "longJump";
+
+const CYCLE_ACTIONS: EnemyCycleAction[] = ["hop", "longJump", "idle"];
+
+export interface EnemyMovementConfig {
+  distance: number; // pixels
+  duration: number; // milliseconds
+}
+
+export interface EnemyAnimationConfig {
+  start: number;
+  end: number;
+  frameRate?: number;
+  repeat?: number; // -1 loops, which is the default
+}
+
+// One roll on an enemy's loot table when it dies
+export interface LootEntry {
+  item: string; // item id
+  chance: number; // 0 to 1
+  min: number;
+  max: number;
+}
+
+export interface EnemyType {
+  type: string;
+  health: number;
+  expReward: number;
+  contactDamage: number;
+  detectionRadius: number;
+  actionCycle: EnemyCycleAction[];
+  movements: { [movement in EnemyMovement]: EnemyMovementConfig };
+  pauseDuration: number; // milliseconds
+  // Collision box relative to the enemy's position, which is the middle of
+  // its sprite
+  body: Body;
+  sprite: {
+    key: string;
+    path: string; // relative to the client's public directory
+    frameWidth: number;
+    frameHeight: number;
+  };
+  // Keyed by `${action}_${direction}`, plus "dying"
+  animations: { [name: string]: EnemyAnimationConfig };
+  loot: LootEntry[];
+}
+
+const isCycleAction = (value: unknown): value is EnemyCycleAction =>
+  CYCLE_ACTIONS.includes(value as EnemyCycleAction);
+
+// Checks a parsed definition file; `source` names the file in errors
+export function validateEnemyType(data: unknown, source: string): EnemyType {
+  const { fail, requireNumber, requireString, requireObject, requireArray } =
+    createChecks(source);
+
+  const definition = requireObject(data, "definition");
+  const type = requireString(definition.type, "type");
+
+  const actionCycle = requireArray(definition.actionCycle, "actionCycle").map(
+    (action) =>
+      isCycleAction(action)
+        ? action
+        : fail(`unknown action "${action}" in actionCycle`)
+  );
+  if (actionCycle.length === 0) fail("actionCycle must be a non-empty array");
+
+  const movements = requireObject(definition.movements, "movements");
+  const movement = (name: EnemyMovement): EnemyMovementConfig => {
+    const config = requireObject(movements[name], `${name} movement`);
+    return {
+      distance: requireNumber(config.distance, `${name} distance`),
+      duration: requireNumber(config.duration, `${name} duration`),
+    };
+  };
+
+  const body = requireObject(definition.body, "body");
+  // Offsets may be negative
+  const offset = (name: "offsetX" | "offsetY"): number => {
+    const value = body[name];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return fail(`body.${name} must be a number`);
+    }
+    return value;
+  };
+
+  const sprite = requireObject(definition.sprite, "sprite");
+
+  const animations: { [name: string]: EnemyAnimationConfig } = {};
+  for (const [name, value] of Object.entries(
+    requireObject(definition.animations, "animations")
+  )) {
+    const animation = requireObject(value, `animation ${name}`);
+    animations[name] = {
+      start: requireNumber(animation.start, `animation ${name} start`),
+      end: requireNumber(animation.end, `animation ${name} end`),
+    };
+    if (animation.frameRate !== undefined) {
+      animations[name].frameRate = requireNumber(
+        animation.frameRate,
+        `animation ${name} frameRate`
+      );
+    }
+    const repeat = animation.repeat;
+    if (repeat !== undefined) {
+      if (typeof repeat !== "number" || !Number.isInteger(repeat)) {
+        return fail(`animation ${name} repeat must be a whole number`);
+      }
+      animations[name].repeat = repeat;
+    }
+  }
+
+  // Enemies without a loot table drop nothing
+  const loot = requireArray(definition.loot ?? [], "loot").map(
+    (value): LootEntry => {
+      const entry = requireObject(value, "loot entry");
+      const item = requireString(entry.item, "loot item");
+      const min = requireNumber(entry.min, `loot ${item} min`);
+      const max = requireNumber(entry.max, `loot ${item} max`);
+      if (min > max) fail(`loot ${item} min exceeds max`);
+      return {
+        item,
+        chance: requireNumber(entry.chance, `loot ${item} chance`),
+        min,
+        max,
+      };
+    }
+  );
+
+  return {
+    type,
+    health: requireNumber(definition.health, "health"),
+    expReward: requireNumber(definition.expReward, "expReward"),
+    contactDamage: requireNumber(definition.contactDamage, "contactDamage"),
+    detectionRadius: requireNumber(
+      definition.detectionRadius,
+      "detectionRadius"
+    ),
+    actionCycle,
+    movements: { hop: movement("hop"), longJump: movement("longJump") },
+    pauseDuration: requireNumber(definition.pauseDuration, "pauseDuration"),
+    body: {
+      width: requireNumber(body.width, "body.width"),
+      height: requireNumber(body.height, "body.height"),
+      offsetX: offset("offsetX"),
+      offsetY: offset("offsetY"),
+    },
+    sprite: {
+      key: requireString(sprite.key, "sprite.key"),
+      path: requireString(sprite.path, "sprite.path"),
+      frameWidth: requireNumber(sprite.frameWidth, "sprite.frameWidth"),
+      frameHeight: requireNumber(sprite.frameHeight, "sprite.frameHeight"),
+    },
+    animations,
+    loot,
+  };
+}
@@ -0,0 +1,123 @@
+import { createChecks } from "./validation";
+import { PlayerStats, STAT_NAMES } from "./stats";
+import { AttackHitbox } from "./combat";
+
+// Number of slots in every player's inventory
+export const INVENTORY_SIZE = 20;
+
+export const EQUIPMENT_SLOTS = ["weapon", "armor", "accessory"] as const;
+export type EquipmentSlot = (typeof EQUIPMENT_SLOTS)[number];
+
+// Item id worn in each slot, null when the slot is empty
+export type EquippedItems = { [slot in EquipmentSlot]: string | null };
+
+export function createEmptyEquipment(): EquippedItems {
+  return { weapon: null, armor: null, accessory: null };
+}
+
+// What an item does while it is worn
+export interface EquipmentDefinition {
+  slot: EquipmentSlot;
+  // Added to the wearer's stats, negative values lower them
+  stats: Partial<PlayerStats>;
+  // Weapons only, the shape of their swing
+  hitbox?: AttackHitbox;
+}
+
+/**
+ * Item definitions are JSON files in shared/items, one per item, loaded by
+ * both the server and the client.
+ */
+export interface ItemDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  // Most of this item one inventory slot can hold
+  maxStack: number;
+  // Drawn for the item on the ground and in the inventory, e.g. "#6fd46f"
+  color: string;
+  // Only for items that can be worn
+  equipment?: EquipmentDefinition;
+}
+
+export interface InventorySlot {
+  itemId: string;
+  quantity: number;
+}
+
+// Fixed size, empty slots are null
+export type InventorySlots = (InventorySlot | null)[];
+
+const isEquipmentSlot = (value: unknown): value is EquipmentSlot =>
+  EQUIPMENT_SLOTS.includes(value as EquipmentSlot);
+
+const isStatName = (value: string): value is keyof PlayerStats =>
+  STAT_NAMES.includes(value as keyof PlayerStats);
+
+export function validateItemDefinition(
+  data: unknown,
+  source: string
+): ItemDefinition {
+  const { fail, requireString, requireObject } = createChecks(source);
+
+  const definition = requireObject(data, "definition");
+  const { maxStack, description } = definition;
+  if (
+    typeof maxStack !== "number" ||
+    !Number.isInteger(maxStack) ||
+    maxStack < 1
+  ) {
+    return fail("maxStack must be a positive whole number");
+  }
+
+  const item: ItemDefinition = {
+    id: requireString(definition.id, "id"),
+    name: requireString(definition.name, "name"),
+    maxStack,
+    color: requireString(definition.color, "color"),
+  };
+
+  if (description !== undefined) {
+    if (typeof description !== "string") {
+      return fail("description must be text");
+    }
+    item.description = description;
+  }
+
+  if (definition.equipment !== undefined) {
+    const equipment = requireObject(definition.equipment, "equipment");
+    const { slot } = equipment;
+    if (!isEquipmentSlot(slot)) {
+      return fail(
+        `equipment.slot must be one of ${EQUIPMENT_SLOTS.join(", ")}`
+      );
+    }
+
+    const stats: Partial<PlayerStats> = {};
+    for (const [stat, value] of Object.entries(
+      requireObject(equipment.stats ?? {}, "equipment.stats")
+    )) {
+      if (!isStatName(stat)) {
+        return fail(`unknown stat "${stat}"`);
+      }
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return fail(`equipment stat ${stat} must be a number`);
+      }
+      stats[stat] = value;
+    }
+    item.equipment = { slot, stats };
+
+    if (equipment.hitbox !== undefined) {
+      if (slot !== "weapon") {
+        fail("only weapons can have a hitbox");
+      }
+      const { arc } = requireObject(equipment.hitbox, "equipment.hitbox");
+      if (typeof arc !== "number" || arc <= 0 || arc > 360) {
+        return fail("equipment.hitbox.arc must be between 0 and 360 degrees");
+      }
+      item.equipment.hitbox = { arc };
+    }
+  }
+
+  return item;
+}
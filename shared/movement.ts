@@ -0,0 +1,53 @@
+import { TICK_RATE } from "./constants";
+import { BoxCollision, moveBody, PLAYER_BODY } from "./collision";
+
+export const PLAYER_SPEED = 60; // pixels per second
+
+export const DIRECTIONS = ["up", "down", "left", "right"] as const;
+
+// What a player can ask to be doing. Everything else, e.g. dying, is up to
+// the server.
+export const INPUT_ACTIONS = ["idle", "walk", "attack"] as const;
+
+export interface PlayerInput {
+  // Increasing per client; the server echoes the last one it processed
+  seq: number;
+  left?: boolean;
+  right?: boolean;
+  up?: boolean;
+  down?: boolean;
+  direction?: string; // one of DIRECTIONS
+  action?: string; // one of INPUT_ACTIONS
+  // Server time the client was drawing other entities at, sent with attacks
+  // so the server can check hits against what the player saw
+  renderTime?: number;
+}
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+/**
+ * Moves a player by one input, i.e. one tick's worth of movement.
+ * The server runs this authoritatively and the client runs the exact same
+ * code to predict its own movement ahead of the server.
+ */
+export function applyPlayerInput(
+  position: Position,
+  input: PlayerInput,
+  speed: number,
+  collision: BoxCollision
+): Position {
+  const step = speed / TICK_RATE;
+  let dx = 0;
+  let dy = 0;
+
+  if (input.left) dx -= step;
+  if (input.right) dx += step;
+  if (input.up) dy -= step;
+  if (input.down) dy += step;
+
+  // Slides along walls rather than stopping dead against them
+  return moveBody(position, dx, dy, PLAYER_BODY, collision);
+}
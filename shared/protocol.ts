@@ -0,0 +1,299 @@
+import { StateUpdate } from "./delta";
+import { DIRECTIONS, INPUT_ACTIONS, PlayerInput, Position } from "./movement";
+import { WireFormat } from "./wire";
+import {
+  EQUIPMENT_SLOTS,
+  EquipmentSlot,
+  EquippedItems,
+  InventorySlots,
+} from "./items";
+import {
+  ALLOCATABLE_STATS,
+  AllocatableStat,
+  AllocatedStats,
+  PlayerStats,
+} from "./stats";
+
+/**
+ * Everything the server and the client say to each other over the socket:
+ * every event, what it carries, and checks for what clients send. Both sides
+ * compile against this file, so they can't drift apart.
+ */
+
+// Bump whenever an event or payload changes in a way the other side has to
+// know about. Clients send theirs in the handshake and are turned away if it
+// isn't the server's. What changed in each version:
+//   2: levelUp carries the recomputed stats; binary gameState numbers ids
+//      per collection and reuses the numbers of removed entities
+//   3: a binary full state starts the id numbering over
+export const PROTOCOL_VERSION = 3;
+
+// Handshake error for clients that speak another version, i.e. were loaded
+// before the server was updated
+export const PROTOCOL_MISMATCH = "protocol mismatch";
+
+// gameState and playerInput in the binary wire format
+export type BinaryMessage = ArrayBuffer | ArrayBufferView;
+
+// Longest chat message a client may send, in characters
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+
+// Largest binary playerInput the server accepts, in bytes. A real one is
+// never more than about 20.
+const MAX_BINARY_INPUT_SIZE = 32;
+
+// What other players can see a player wearing
+export interface PlayerAppearance {
+  weapon: string | null; // item id
+}
+
+export interface PlayerState {
+  playerId: string;
+  zone: string;
+  position: Position;
+  level: number;
+  exp: number;
+  health: number;
+  maxHealth: number;
+  socketId: string;
+  direction: string;
+  action: string;
+  appearance: PlayerAppearance;
+  // Prediction bookkeeping, only sent to the player it belongs to
+  lastProcessedInput?: number;
+}
+
+export interface EnemyData {
+  id: string;
+  type: string;
+  position: Position;
+  health: number;
+  direction: string;
+  action: string;
+}
+
+export interface ItemDropData {
+  id: string;
+  itemId: string;
+  quantity: number;
+  position: Position;
+}
+
+// Everything in a zone, or in one client's view of it, by id
+export type GameState = {
+  players: { [id: string]: PlayerState };
+  enemies: { [id: string]: EnemyData };
+  drops: { [id: string]: ItemDropData };
+};
+
+// Entities that came into a client's view, by collection
+export type EnteredView = Partial<GameState>;
+
+// Entities that went out of a client's view, by collection. Despawned ones
+// are gone from the zone, e.g. killed or disconnected, rather than just out
+// of range.
+export type LeftView = {
+  [collection in keyof GameState]?: { id: string; despawned: boolean }[];
+};
+
+export interface InitMessage {
+  wireFormat: WireFormat;
+  playerData: PlayerState;
+}
+
+export interface ZoneChangedMessage {
+  zone: string;
+  position: Position;
+}
+
+export interface LevelUpMessage {
+  level: number;
+  levelsGained: number;
+  statPoints: number;
+  // Recomputed for the new level
+  stats: PlayerStats;
+}
+
+export interface PlayerDiedMessage {
+  respawnIn: number; // ms
+}
+
+export interface StatsMessage {
+  stats: PlayerStats;
+  statPoints: number;
+  allocatedStats: AllocatedStats;
+}
+
+export interface ChatMessage {
+  id: string; // playerId of the sender
+  message: string;
+}
+
+export interface DropItemMessage {
+  slot: number;
+  // The whole stack if left out
+  quantity?: number;
+}
+
+export interface EquipItemMessage {
+  slot: number;
+}
+
+export interface UnequipItemMessage {
+  slot: EquipmentSlot;
+}
+
+export interface AllocateStatMessage {
+  stat: AllocatableStat;
+}
+
+export interface ServerToClientEvents {
+  // Answers the client's init; arrives before anything in view
+  init(data: InitMessage): void;
+  // The session is no good, the client has to log in again
+  authError(message: string): void;
+  zoneChanged(data: ZoneChangedMessage): void;
+  enterView(entered: EnteredView): void;
+  leaveView(left: LeftView): void;
+  gameState(update: StateUpdate | BinaryMessage): void;
+  levelUp(data: LevelUpMessage): void;
+  playerDied(data: PlayerDiedMessage): void;
+  inventory(slots: InventorySlots): void;
+  equipment(equipment: EquippedItems): void;
+  stats(data: StatsMessage): void;
+  chatMessage(data: ChatMessage): void;
+}
+
+export interface ClientToServerEvents {
+  init(): void;
+  playerInput(input: PlayerInput | BinaryMessage): void;
+  dropItem(data: DropItemMessage): void;
+  equipItem(data: EquipItemMessage): void;
+  unequipItem(data: UnequipItemMessage): void;
+  allocateStat(data: AllocateStatMessage): void;
+  // The client has applied this tick's state and can use it as a baseline
+  gameStateAck(tick: number): void;
+  requestFullState(): void;
+  chatMessage(message: string): void;
+}
+
+// A runtime check that a value received over the network is a T
+export type Validator<T> = (value: unknown) => value is T;
+
+export const isBinaryMessage: Validator<BinaryMessage> = (
+  value
+): value is BinaryMessage =>
+  value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isInteger = (value: unknown): value is number =>
+  Number.isSafeInteger(value);
+
+// A string of at most `maxLength` characters
+function text(maxLength: number): Validator<string> {
+  return (value): value is string =>
+    typeof value === "string" && value.length <= maxLength;
+}
+
+// Binary data of at most `maxSize` bytes
+function binary(maxSize: number): Validator<BinaryMessage> {
+  return (value): value is BinaryMessage =>
+    isBinaryMessage(value) && value.byteLength <= maxSize;
+}
+
+function optional<T>(check: Validator<T>): Validator<T | undefined> {
+  return (value): value is T | undefined => value === undefined || check(value);
+}
+
+function either<A, B>(a: Validator<A>, b: Validator<B>): Validator<A | B> {
+  return (value): value is A | B => a(value) || b(value);
+}
+
+function oneOf<T>(values: readonly T[]): Validator<T> {
+  return (value): value is T => values.includes(value as T);
+}
+
+// A plain object with exactly these fields; optional ones may be left out
+function object<T extends object>(shape: {
+  [K in keyof T]-?: Validator<T[K]>;
+}): Validator<T> {
+  const checks = Object.entries(shape) as [string, Validator<unknown>][];
+  return (value): value is T => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return false;
+    }
+    const fields = value as { [key: string]: unknown };
+    return (
+      Object.keys(fields).every((key) =>
+        Object.prototype.hasOwnProperty.call(shape, key)
+      ) && checks.every(([key, check]) => check(fields[key]))
+    );
+  };
+}
+
+// An event's arguments, exactly as many as it takes
+function args<T extends unknown[]>(
+  ...checks: { [I in keyof T]: Validator<T[I]> }
+): Validator<T> {
+  return (value): value is T =>
+    Array.isArray(value) &&
+    value.length === checks.length &&
+    checks.every((check, i) => check(value[i]));
+}
+
+export const isPlayerInput = object<PlayerInput>({
+  seq: isInteger,
+  left: optional(isBoolean),
+  right: optional(isBoolean),
+  up: optional(isBoolean),
+  down: optional(isBoolean),
+  direction: optional(oneOf(DIRECTIONS)),
+  action: optional(oneOf(INPUT_ACTIONS)),
+  renderTime: optional(isNumber),
+});
+
+// Checks for the arguments of every event a client can send
+const CLIENT_EVENT_CHECKS: {
+  [E in keyof ClientToServerEvents]: Validator<
+    Parameters<ClientToServerEvents[E]>
+  >;
+} = {
+  init: args(),
+  // Binary input is checked in full once it is decoded
+  playerInput: args(either(binary(MAX_BINARY_INPUT_SIZE), isPlayerInput)),
+  dropItem: args(
+    object<DropItemMessage>({ slot: isInteger, quantity: optional(isInteger) })
+  ),
+  equipItem: args(object<EquipItemMessage>({ slot: isInteger })),
+  unequipItem: args(
+    object<UnequipItemMessage>({ slot: oneOf(EQUIPMENT_SLOTS) })
+  ),
+  allocateStat: args(
+    object<AllocateStatMessage>({ stat: oneOf(ALLOCATABLE_STATS) })
+  ),
+  gameStateAck: args(isInteger),
+  requestFullState: args(),
+  chatMessage: args(text(MAX_CHAT_MESSAGE_LENGTH)),
+};
+
+/**
+ * Whether a client sent an event that exists with the arguments it takes.
+ * The server drops anything that isn't, so handlers can trust their types.
+ */
+export function isValidClientEvent(
+  event: unknown,
+  eventArgs: unknown[]
+): event is keyof ClientToServerEvents {
+  if (
+    typeof event !== "string" ||
+    !Object.prototype.hasOwnProperty.call(CLIENT_EVENT_CHECKS, event)
+  ) {
+    return false;
+  }
+  return CLIENT_EVENT_CHECKS[event as keyof ClientToServerEvents](eventArgs);
+}
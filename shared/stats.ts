@@ -0,0 +1,70 @@
+import { PLAYER_SPEED } from "./movement";
+
+// A player's combat stats once level, allocated points and equipment have
+// been applied
+export interface PlayerStats {
+  maxHealth: number;
+  attack: number;
+  defense: number;
+  attackRange: number; // pixels
+  moveSpeed: number; // pixels per second
+}
+
+export const STAT_NAMES: (keyof PlayerStats)[] = [
+  "maxHealth",
+  "attack",
+  "defense",
+  "attackRange",
+  "moveSpeed",
+];
+
+// Stats players can spend their stat points on
+export const ALLOCATABLE_STATS = ["maxHealth", "attack", "defense"] as const;
+export type AllocatableStat = (typeof ALLOCATABLE_STATS)[number];
+export type AllocatedStats = { [stat in AllocatableStat]: number };
+
+/**
+ * Character progression. Tune the game by changing these numbers; the
+ * server and the client both read them.
+ */
+export const PROGRESSION = {
+  maxLevel: 50,
+  // Exp needed to go from level n to n + 1 is base * n ^ exponent
+  expCurve: { base: 100, exponent: 1.5 },
+  // Stats of a level 1 character with nothing allocated or equipped
+  baseStats: {
+    maxHealth: 100,
+    attack: 10,
+    defense: 0,
+    attackRange: 50,
+    moveSpeed: PLAYER_SPEED,
+  } as PlayerStats,
+  // Added for every level above 1
+  perLevel: { maxHealth: 10, attack: 2, defense: 1 } as AllocatedStats,
+  statPointsPerLevel: 3,
+  // Added for every point allocated to a stat
+  perPoint: { maxHealth: 5, attack: 1, defense: 1 } as AllocatedStats,
+};
+
+export function createEmptyAllocation(): AllocatedStats {
+  return { maxHealth: 0, attack: 0, defense: 0 };
+}
+
+export function expToNextLevel(level: number): number {
+  const { base, exponent } = PROGRESSION.expCurve;
+  return Math.floor(base * Math.pow(level, exponent));
+}
+
+// Stats from level and allocated points alone, before equipment
+export function statsForLevel(
+  level: number,
+  allocated: AllocatedStats
+): PlayerStats {
+  const stats = { ...PROGRESSION.baseStats };
+  for (const stat of ALLOCATABLE_STATS) {
+    stats[stat] +=
+      PROGRESSION.perLevel[stat] * (level - 1) +
+      PROGRESSION.perPoint[stat] * allocated[stat];
+  }
+  return stats;
+}
@@ -0,0 +1,120 @@
+import { Position } from "./movement";
+
+// Subset of the Tiled JSON map format that the game reads.
+// Shared so the server and the client interpret the same map the same way.
+// The server reads the TMX files directly into the same shape.
+
+export interface TiledProperty {
+  name: string;
+  type: string;
+  value: any;
+}
+
+export interface TiledFrame {
+  tileid: number;
+  duration: number;
+}
+
+export interface Tile {
+  id: number;
+  properties?: TiledProperty[];
+  // Collision shapes drawn in Tiled's tile collision editor, in pixels
+  // relative to the tile's top left corner
+  objectgroup?: ObjectLayer;
+  animation?: TiledFrame[];
+}
+
+export interface Tileset {
+  firstgid: number;
+  image: string;
+  imageheight: number;
+  imagewidth: number;
+  name: string;
+  tilecount: number;
+  tileheight: number;
+  tilewidth: number;
+  columns?: number;
+  tiles?: Tile[];
+}
+
+export interface TiledObject {
+  id: number;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  visible: boolean;
+  point?: boolean;
+  ellipse?: boolean;
+  // Vertices relative to the object's x and y
+  polygon?: Position[];
+  polyline?: Position[];
+  properties?: TiledProperty[];
+}
+
+interface BaseLayer {
+  id?: number;
+  name: string;
+  x: number;
+  y: number;
+  visible: boolean;
+  opacity: number;
+  properties?: TiledProperty[];
+}
+
+export interface TileLayer extends BaseLayer {
+  type: "tilelayer";
+  data: number[];
+  height: number;
+  width: number;
+}
+
+export interface ObjectLayer extends BaseLayer {
+  type: "objectgroup";
+  draworder?: string;
+  objects: TiledObject[];
+}
+
+export type Layer = TileLayer | ObjectLayer;
+
+export interface Tilemap {
+  layers: Layer[];
+  tilesets: Tileset[];
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  type: string;
+  version: string;
+  orientation: string;
+  renderorder: string;
+  tiledversion: string;
+  nextlayerid: number;
+  nextobjectid: number;
+  infinite: boolean;
+  properties?: TiledProperty[];
+}
+
+// Anything in a map that can have custom properties
+export interface PropertyHolder {
+  properties?: TiledProperty[];
+}
+
+/**
+ * A custom property's value, or the fallback if it's missing or isn't of the
+ * same type as the fallback.
+ */
+export function getProperty<T>(
+  holder: PropertyHolder,
+  name: string,
+  fallback: T
+): T {
+  const property = holder.properties?.find((prop) => prop.name === name);
+  if (!property || typeof property.value !== typeof fallback) {
+    return fallback;
+  }
+  return property.value as T;
+}
@@ -0,0 +1,41 @@
+// The fields of a JSON object, yet to be checked
+export type UncheckedFields = { [field: string]: unknown };
+
+/**
+ * Checks for data loaded from JSON files. Every error names the file the
+ * data came from, so a typo fails loudly at startup rather than mid-game.
+ * Each check returns the value it checked, narrowed to what it checked for.
+ */
+export function createChecks(source: string) {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid definition in ${source}: ${problem}`);
+  };
+
+  return {
+    fail,
+    requireNumber(value: unknown, name: string): number {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        return fail(`${name} must be a non-negative number`);
+      }
+      return value;
+    },
+    requireString(value: unknown, name: string): string {
+      if (typeof value !== "string" || !value) {
+        return fail(`${name} is missing`);
+      }
+      return value;
+    },
+    requireObject(value: unknown, name: string): UncheckedFields {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`${name} must be an object`);
+      }
+      return value as UncheckedFields;
+    },
+    requireArray(value: unknown, name: string): unknown[] {
+      if (!Array.isArray(value)) {
+        return fail(`${name} must be an array`);
+      }
+      return value;
+    },
+  };
+}
@@ -0,0 +1,600 @@
+import { StateUpdate } from "./delta";
+import { PlayerInput, Position } from "./movement";
+
+// Compact binary encoding of the messages sent every tick: gameState from
+// the server and playerInput from the client. Everything else stays JSON.
+// Clients can ask for JSON for these too, which is easier to debug.
+
+export type WireFormat = "binary" | "json";
+
+// Formats the server can speak, preferred first
+const SUPPORTED_WIRE_FORMATS: WireFormat[] = ["binary", "json"];
+
+/**
+ * The first of the client's requested formats the server supports. Clients
+ * that don't ask for anything get JSON.
+ */
+export function negotiateWireFormat(requested: unknown): WireFormat {
+  if (Array.isArray(requested)) {
+    const format = requested.find((format) =>
+      SUPPORTED_WIRE_FORMATS.includes(format)
+    );
+    if (format) return format;
+  }
+  return "json";
+}
+
+// Positions are sent in 1/16ths of a pixel
+const POSITION_SCALE = 16;
+
+// Values for enum fields. Values missing from a table still work, they are
+// just sent as strings.
+const DIRECTIONS = ["up", "down", "left", "right"];
+const ACTIONS = [
+  "idle",
+  "walk",
+  "attack",
+  "die",
+  "hop",
+  "longJump",
+  "confused",
+];
+
+// What each type of field holds
+interface FieldValues {
+  key: string; // the entity's own id, which is already sent as its key
+  string: string;
+  uint: number;
+  float: number;
+  position: Position;
+  direction: string;
+  action: string;
+  json: unknown; // anything rare or nested enough not to need a codec
+}
+
+type FieldType = keyof FieldValues;
+
+// Every field an entity in a collection can have, in wire order. Adding a
+// field to an entity's state means adding it here too.
+const COLLECTIONS: { name: string; fields: [string, FieldType][] }[] = [
+  {
+    name: "players",
+    fields: [
+      ["playerId", "key"],
+      ["zone", "string"],
+      ["position", "position"],
+      ["level", "uint"],
+      ["exp", "uint"],
+      ["direction", "direction"],
+      ["action", "action"],
+      ["health", "float"],
+      ["maxHealth", "float"],
+      ["socketId", "string"],
+      ["appearance", "json"],
+      ["lastProcessedInput", "uint"],
+    ],
+  },
+  {
+    name: "enemies",
+    fields: [
+      ["id", "key"],
+      ["type", "string"],
+      ["position", "position"],
+      ["health", "float"],
+      ["direction", "direction"],
+      ["action", "action"],
+    ],
+  },
+  {
+    name: "drops",
+    fields: [
+      ["id", "key"],
+      ["itemId", "string"],
+      ["quantity", "uint"],
+      ["position", "position"],
+    ],
+  },
+];
+
+class ByteWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  private reserve(size: number) {
+    if (this.length + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  uint8(value: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  // Unsigned LEB128, 7 bits per byte
+  varUint(value: number) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Can't encode ${value} as an unsigned integer`);
+    }
+    while (value >= 0x80) {
+      this.uint8((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.uint8(value);
+  }
+
+  // Zigzag, so small negative numbers stay small too
+  varInt(value: number) {
+    this.varUint(value < 0 ? -value * 2 - 1 : value * 2);
+  }
+
+  float32(value: number) {
+    this.reserve(4);
+    this.view.setFloat32(this.length, value, true);
+    this.length += 4;
+  }
+
+  float64(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.varUint(encoded.length);
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.length);
+    this.length += encoded.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(data: ArrayBuffer | ArrayBufferView) {
+    this.bytes =
+      data instanceof ArrayBuffer
+        ? new Uint8Array(data)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    this.view = new DataView(
+      this.bytes.buffer,
+      this.bytes.byteOffset,
+      this.bytes.byteLength
+    );
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error("Message ended unexpectedly");
+    }
+    const offset = this.offset;
+    this.offset += size;
+    return offset;
+  }
+
+  uint8(): number {
+    return this.bytes[this.take(1)];
+  }
+
+  varUint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.uint8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new Error("Integer too large");
+      }
+    }
+  }
+
+  varInt(): number {
+    const value = this.varUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  float32(): number {
+    return this.view.getFloat32(this.take(4), true);
+  }
+
+  float64(): number {
+    return this.view.getFloat64(this.take(8), true);
+  }
+
+  string(): string {
+    const length = this.varUint();
+    const offset = this.take(length);
+    return new TextDecoder().decode(
+      this.bytes.subarray(offset, offset + length)
+    );
+  }
+
+  // Trailing bytes mean the two sides disagree about the format
+  end() {
+    if (this.offset !== this.bytes.length) {
+      throw new Error("Unexpected data at the end of the message");
+    }
+  }
+}
+
+// Enum values go as their index in the table plus one; 0 means a string
+// that isn't in the table follows
+function writeEnum(writer: ByteWriter, values: string[], value: string) {
+  const index = values.indexOf(value);
+  writer.varUint(index + 1);
+  if (index === -1) writer.string(value);
+}
+
+function readEnum(reader: ByteReader, values: string[]): string {
+  const index = reader.varUint();
+  if (index === 0) return reader.string();
+  const value = values[index - 1];
+  if (value === undefined) throw new Error(`Unknown enum value ${index}`);
+  return value;
+}
+
+interface FieldCodec<T> {
+  // Whether a value from the server's state can be written as this type
+  accepts(value: unknown): value is T;
+  write(writer: ByteWriter, value: T): void;
+  // `key` is the id of the entity the field belongs to
+  read(reader: ByteReader, key: string): T;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isNumber = (value: unknown): value is number => typeof value === "number";
+
+const FIELD_CODECS: { [T in FieldType]: FieldCodec<FieldValues[T]> } = {
+  key: {
+    accepts: isString,
+    write: () => {},
+    read: (_reader, key) => key,
+  },
+  string: {
+    accepts: isString,
+    write: (writer, value) => writer.string(value),
+    read: (reader) => reader.string(),
+  },
+  uint: {
+    accepts: isNumber,
+    write: (writer, value) => writer.varUint(value),
+    read: (reader) => reader.varUint(),
+  },
+  float: {
+    accepts: isNumber,
+    write: (writer, value) => writer.float32(value),
+    read: (reader) => reader.float32(),
+  },
+  position: {
+    accepts: (value): value is Position =>
+      typeof value === "object" &&
+      value !== null &&
+      isNumber((value as { x?: unknown }).x) &&
+      isNumber((value as { y?: unknown }).y),
+    write: (writer, value) => {
+      writer.varInt(Math.round(value.x * POSITION_SCALE));
+      writer.varInt(Math.round(value.y * POSITION_SCALE));
+    },
+    read: (reader) => ({
+      x: reader.varInt() / POSITION_SCALE,
+      y: reader.varInt() / POSITION_SCALE,
+    }),
+  },
+  direction: {
+    accepts: isString,
+    write: (writer, value) => writeEnum(writer, DIRECTIONS, value),
+    read: (reader) => readEnum(reader, DIRECTIONS),
+  },
+  action: {
+    accepts: isString,
+    write: (writer, value) => writeEnum(writer, ACTIONS, value),
+    read: (reader) => readEnum(reader, ACTIONS),
+  },
+  json: {
+    accepts: (value): value is unknown => value !== undefined,
+    write: (writer, value) => writer.string(JSON.stringify(value)),
+    read: (reader) => JSON.parse(reader.string()),
+  },
+};
+
+// `name` is for the error if the value isn't of the field's type
+function writeField<T extends FieldType>(
+  writer: ByteWriter,
+  type: T,
+  value: unknown,
+  name: string
+) {
+  const codec: FieldCodec<FieldValues[T]> = FIELD_CODECS[type];
+  if (!codec.accepts(value)) {
+    throw new Error(`Can't encode ${name} as ${type}`);
+  }
+  codec.write(writer, value);
+}
+
+function readField<T extends FieldType>(
+  reader: ByteReader,
+  type: T,
+  key: string
+): FieldValues[T] {
+  const codec: FieldCodec<FieldValues[T]> = FIELD_CODECS[type];
+  return codec.read(reader, key);
+}
+
+/**
+ * Numbers for the ids of the entities in one collection. A number is handed
+ * out again once its entity is removed, so they stay small however many
+ * entities come and go. The encoder and the decoder see the same ids added
+ * and removed in the same order, so they agree on every number.
+ */
+class IdTable {
+  private numbers = new Map<string, number>();
+  private ids = new Map<number, string>();
+  private free: number[] = [];
+
+  numberOf(id: string): number | undefined {
+    return this.numbers.get(id);
+  }
+
+  idOf(number: number): string | undefined {
+    return this.ids.get(number);
+  }
+
+  add(id: string): number {
+    // Without free numbers, exactly the ones below the count are taken
+    const number = this.free.pop() ?? this.numbers.size;
+    this.numbers.set(id, number);
+    this.ids.set(number, id);
+    return number;
+  }
+
+  remove(id: string) {
+    const number = this.numbers.get(id);
+    if (number === undefined) return;
+    this.numbers.delete(id);
+    this.ids.delete(number);
+    this.free.push(number);
+  }
+}
+
+function createIdTables(): IdTable[] {
+  return COLLECTIONS.map(() => new IdTable());
+}
+
+/**
+ * Encodes game state updates for one client. Entity ids are sent as small
+ * integers assigned the first time each id is sent, along with the id
+ * itself; the client's StateDecoder learns the mapping from that. Socket.IO
+ * delivers messages in order, so every later message can rely on it until
+ * the entity is removed and its number goes to the next new id.
+ *
+ * A full state starts the numbering over on both sides, so a zone change or
+ * a resync leaves nothing behind from before, and a decoder that lost track
+ * of the ids recovers once it asks for one.
+ */
+export class StateEncoder {
+  // Per collection, in COLLECTIONS order
+  private ids = createIdTables();
+
+  encode(update: StateUpdate): Uint8Array {
+    const writer = new ByteWriter();
+    writer.varUint(update.tick);
+    writer.float64(update.timestamp);
+    writer.varUint(update.baseTick === null ? 0 : update.baseTick + 1);
+    if (update.baseTick === null) {
+      this.ids = createIdTables();
+    }
+
+    const collections = Object.keys(update.changes);
+    writer.varUint(collections.length);
+    for (const name of collections) {
+      const index = COLLECTIONS.findIndex((c) => c.name === name);
+      if (index === -1) {
+        throw new Error(`No wire format for the "${name}" collection`);
+      }
+      const { fields } = COLLECTIONS[index];
+      const { updated = {}, removed = [] } = update.changes[name];
+      writer.varUint(index);
+
+      const ids = Object.keys(updated);
+      writer.varUint(ids.length);
+      for (const id of ids) {
+        const entity = new Map<string, unknown>(Object.entries(updated[id]));
+        let mask = 0;
+        for (const field of entity.keys()) {
+          const bit = fields.findIndex(([name]) => name === field);
+          if (bit === -1) {
+            throw new Error(`No wire format for ${name} field "${field}"`);
+          }
+          mask += 2 ** bit;
+        }
+
+        this.writeId(writer, index, id);
+        writer.varUint(mask);
+        fields.forEach(([field, type]) => {
+          if (entity.has(field)) {
+            const value = entity.get(field);
+            writeField(writer, type, value, `${name} field "${field}"`);
+          }
+        });
+      }
+
+      writer.varUint(removed.length);
+      for (const id of removed) {
+        this.writeId(writer, index, id);
+        this.ids[index].remove(id);
+      }
+    }
+
+    return writer.finish();
+  }
+
+  // The id's number, doubled, plus one if the id follows because it's new
+  private writeId(writer: ByteWriter, collection: number, id: string) {
+    const known = this.ids[collection].numberOf(id);
+    if (known !== undefined) {
+      writer.varUint(known * 2);
+      return;
+    }
+    const number = this.ids[collection].add(id);
+    writer.varUint(number * 2 + 1);
+    writer.string(id);
+  }
+}
+
+// Turns a StateEncoder's output back into the update it encoded
+export class StateDecoder {
+  // Per collection, in COLLECTIONS order
+  private ids = createIdTables();
+  // False after a message that couldn't be decoded, which may have left the
+  // ids half updated. Only a full state can be decoded then.
+  private inSync = true;
+
+  // Throws if the data isn't an encoded update, or is a delta while the ids
+  // are out of sync
+  decode(data: ArrayBuffer | ArrayBufferView): StateUpdate {
+    const reader = new ByteReader(data);
+    const tick = reader.varUint();
+    const timestamp = reader.float64();
+    const baseTick = reader.varUint();
+    if (baseTick === 0) {
+      this.ids = createIdTables();
+    } else if (!this.inSync) {
+      throw new Error("Ids out of sync until the next full state");
+    }
+    this.inSync = false;
+
+    const changes: StateUpdate["changes"] = {};
+    const collectionCount = reader.varUint();
+    for (let c = 0; c < collectionCount; c++) {
+      const index = reader.varUint();
+      const collection = COLLECTIONS[index];
+      if (!collection) throw new Error("Unknown collection");
+
+      const updated: { [id: string]: object } = {};
+      const updatedCount = reader.varUint();
+      for (let i = 0; i < updatedCount; i++) {
+        const id = this.readId(reader, index);
+        const mask = reader.varUint();
+        const entity: { [field: string]: unknown } = {};
+        collection.fields.forEach(([field, type], bit) => {
+          if (Math.floor(mask / 2 ** bit) % 2 === 1) {
+            entity[field] = readField(reader, type, id);
+          }
+        });
+        updated[id] = entity;
+      }
+
+      const removed: string[] = [];
+      const removedCount = reader.varUint();
+      for (let i = 0; i < removedCount; i++) {
+        const id = this.readId(reader, index);
+        this.ids[index].remove(id);
+        removed.push(id);
+      }
+
+      // Same shape the JSON format has: empty lists are left out
+      changes[collection.name] = {};
+      if (updatedCount > 0) changes[collection.name].updated = updated;
+      if (removedCount > 0) changes[collection.name].removed = removed;
+    }
+    reader.end();
+    this.inSync = true;
+
+    return {
+      tick,
+      timestamp,
+      baseTick: baseTick === 0 ? null : baseTick - 1,
+      changes,
+    };
+  }
+
+  private readId(reader: ByteReader, collection: number): string {
+    const ids = this.ids[collection];
+    const value = reader.varUint();
+    const number = Math.floor(value / 2);
+    if (value % 2 === 1) {
+      const id = reader.string();
+      if (ids.numberOf(id) !== undefined || ids.add(id) !== number) {
+        throw new Error("Id out of order");
+      }
+    }
+    const id = ids.idOf(number);
+    if (id === undefined) throw new Error(`Unknown id ${number}`);
+    return id;
+  }
+}
+
+// Which optional parts of an input are present
+const INPUT_FLAGS = {
+  left: 1,
+  right: 2,
+  up: 4,
+  down: 8,
+  direction: 16,
+  action: 32,
+  renderTime: 64,
+};
+
+export function encodePlayerInput(input: PlayerInput): Uint8Array {
+  const writer = new ByteWriter();
+  let flags = 0;
+  if (input.left) flags |= INPUT_FLAGS.left;
+  if (input.right) flags |= INPUT_FLAGS.right;
+  if (input.up) flags |= INPUT_FLAGS.up;
+  if (input.down) flags |= INPUT_FLAGS.down;
+  if (input.direction !== undefined) flags |= INPUT_FLAGS.direction;
+  if (input.action !== undefined) flags |= INPUT_FLAGS.action;
+  if (input.renderTime !== undefined) flags |= INPUT_FLAGS.renderTime;
+
+  writer.varUint(input.seq);
+  writer.uint8(flags);
+  if (input.direction !== undefined) {
+    writeEnum(writer, DIRECTIONS, input.direction);
+  }
+  if (input.action !== undefined) {
+    writeEnum(writer, ACTIONS, input.action);
+  }
+  if (input.renderTime !== undefined) {
+    writer.float64(input.renderTime);
+  }
+  return writer.finish();
+}
+
+// Throws if the data isn't an encoded input
+export function decodePlayerInput(
+  data: ArrayBuffer | ArrayBufferView
+): PlayerInput {
+  const reader = new ByteReader(data);
+  const input: PlayerInput = { seq: reader.varUint() };
+  const flags = reader.uint8();
+  if (flags & INPUT_FLAGS.left) input.left = true;
+  if (flags & INPUT_FLAGS.right) input.right = true;
+  if (flags & INPUT_FLAGS.up) input.up = true;
+  if (flags & INPUT_FLAGS.down) input.down = true;
+  if (flags & INPUT_FLAGS.direction) {
+    input.direction = readEnum(reader, DIRECTIONS);
+  }
+  if (flags & INPUT_FLAGS.action) {
+    input.action = readEnum(reader, ACTIONS);
+  }
+  if (flags & INPUT_FLAGS.renderTime) {
+    input.renderTime = reader.float64();
+  }
+  reader.end();
+  return input;
+}
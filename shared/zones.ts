@@ -0,0 +1,19 @@
+/**
+ * The game's zones, one Tiled map each. The server simulates every zone
+ * separately and players move between them through portals in the maps.
+ */
+export interface ZoneDefinition {
+  name: string; // shown to players entering the zone
+  // Map file name without extension: the server reads the TMX in
+  // assets/maps and the client loads its JSON export in
+  // frontend/public/assets/maps
+  map: string;
+}
+
+export const ZONES: { [zoneId: string]: ZoneDefinition } = {
+  meadow: { name: "Meadow", map: "level" },
+  grove: { name: "Quiet Grove", map: "grove" },
+};
+
+// Where new players start
+export const DEFAULT_ZONE = "meadow";